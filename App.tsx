@@ -1,19 +1,62 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Routes, Route } from 'react-router-dom';
-import { ThemeItem, ThemeGroup, SortOption } from './types';
-import { fetchThemesFromStatic } from './services/githubService';
+import { Routes, Route, Link, useSearchParams, useLocation } from 'react-router-dom';
+import { ThemeGroup, SortOption, PostTextIndex } from './types';
+import { loadThemeDataset } from './services/dataSources';
 import { ThemeCard } from './components/ThemeCard';
 import { ThemeDetail } from './components/ThemeDetail';
-import { Github, Search, AlertCircle, RefreshCw, Loader2, Moon, Sun, Monitor, ArrowUp, Languages, ChevronDown, X, SortAsc, SortDesc } from 'lucide-react';
+import { TokenDialog } from './components/TokenDialog';
+import { Diagnostics } from './components/Diagnostics';
+import { CompareView, MAX_COMPARE } from './components/CompareView';
+import { CollectionPicker } from './components/CollectionPicker';
+import { CollectionsView, SharedCollectionView } from './components/CollectionsView';
+import { AuthorView } from './components/AuthorView';
+import { StatsView } from './components/StatsView';
+import { Github, Search, AlertCircle, RefreshCw, Loader2, Moon, Sun, Monitor, ArrowUp, Languages, ChevronDown, X, SortAsc, SortDesc, KeyRound, GitCompare, SlidersHorizontal, FolderHeart, BarChart3 } from 'lucide-react';
 import { translations, Language } from './utils/i18n';
+import { formatDateCustom } from '@caolib/time-util';
+import { readThemeDataset, writeThemeDataset, isCacheStale } from './services/cache';
+import { getRateLimit, subscribeRateLimit, RateLimitState } from './services/scheduler';
+import { getToken } from './services/token';
+import { readStarHistory, recordStarSnapshots, getStarsGained, hasStarTrends, StarHistory } from './services/starHistory';
+import { loadPostTextIndex } from './services/postTextIndex';
+import { getGalleryView, GalleryView } from './services/galleryView';
+import { ThemeCollection, PINNED_COLLECTION_ID, readCollections, writeCollections, toggleInCollection } from './services/collections';
+import { FacetSidebar } from './components/FacetSidebar';
+import { SearchBox, SearchVocabulary } from './components/SearchBox';
+import { parseSearchQuery, matchesGroupQualifiers, matchesThemeQualifiers, isEmptyQuery } from './utils/searchQuery';
+import { buildSearchIndex, searchThemes } from './utils/searchIndex';
+import { FacetFilters, StyleFilter, EMPTY_FACETS, matchesStyleFilter, matchesFacets, countActiveFacets } from './utils/facets';
+import { GalleryState, DEFAULT_GALLERY_STATE, hasGalleryParams, readGalleryParams, writeGalleryParams } from './utils/galleryParams';
 
-const BATCH_SIZE = 5;
-const DELAY_MS = 1000; // Delay between batches to be nice to API
-const CACHE_KEY = 'typora_theme_explorer_cache_v2'; // Changed cache key for new structure
 const ITEMS_PER_PAGE = 15; // Number of items to load per scroll
+const TRENDING_WINDOWS = [7, 30, 90]; // Days
 
 type ThemeMode = 'light' | 'dark' | 'system';
 
+const readJson = <T,>(key: string, fallback: T): T => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+// The gallery view saved on the last visit, used when the URL doesn't describe one
+const readStoredGalleryState = (): GalleryState => ({
+  search: localStorage.getItem('gallery_search') || '',
+  sortOption: (localStorage.getItem('gallery_sort_option') as SortOption) || DEFAULT_GALLERY_STATE.sortOption,
+  sortOrder: (localStorage.getItem('gallery_sort_order') as 'asc' | 'desc') || DEFAULT_GALLERY_STATE.sortOrder,
+  trendingDays: Number(localStorage.getItem('gallery_trending_days')) || DEFAULT_GALLERY_STATE.trendingDays,
+  styleFilter: readJson<StyleFilter>('gallery_style_filter', {}),
+  facets: { ...EMPTY_FACETS, ...readJson<Partial<FacetFilters>>('gallery_facets', {}) },
+});
+
+// Relevance only makes sense while searching
+const settleSort = (state: GalleryState): GalleryState =>
+  state.sortOption === SortOption.RELEVANCE && parseSearchQuery(state.search).terms.length === 0
+    ? { ...state, sortOption: SortOption.STARS, sortOrder: 'desc' }
+    : state;
+
 // The main gallery content component
 interface GalleryProps {
   themeMode: ThemeMode;
@@ -25,16 +68,18 @@ interface GalleryProps {
 const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLang }) => {
   const t = translations[lang];
 
-  // Initialize state from local storage if available
-  const [themeGroups, setThemeGroups] = useState<ThemeGroup[]>(() => {
-    try {
-      const cached = localStorage.getItem(CACHE_KEY);
-      return cached ? JSON.parse(cached) : [];
-    } catch (e) {
-      console.warn("Failed to load cache", e);
-      return [];
-    }
-  });
+  // Filled from the cache first, then from the network
+  const [themeGroups, setThemeGroups] = useState<ThemeGroup[]>([]);
+  const [generatedAt, setGeneratedAt] = useState<number | null>(null);
+
+  const baseSortOptions = [SortOption.STARS, SortOption.UPDATED, SortOption.NAME, SortOption.TRENDING];
+  const sortLabels: Record<SortOption, string> = {
+    [SortOption.STARS]: t.sortStars,
+    [SortOption.UPDATED]: t.sortUpdated,
+    [SortOption.NAME]: t.sortName,
+    [SortOption.TRENDING]: t.sortTrending,
+    [SortOption.RELEVANCE]: t.sortRelevance,
+  };
 
   // Language & Sort menu state
   const [showLangMenu, setShowLangMenu] = useState(false);
@@ -57,45 +102,106 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Pin State
-  const [pinnedGroups, setPinnedGroups] = useState<string[]>(() => {
+  // Collections; pinning adds to the built-in "Pinned" one, which also reorders the grid
+  const [collections, setCollections] = useState<ThemeCollection[]>(readCollections);
+  const [collectionPickerId, setCollectionPickerId] = useState<string | null>(null);
+  const pinnedGroups = useMemo(
+    () => collections.find(c => c.id === PINNED_COLLECTION_ID)?.groupIds || [],
+    [collections]
+  );
+  const collectedGroups = useMemo(
+    () => new Set(collections.filter(c => c.id !== PINNED_COLLECTION_ID).flatMap(c => c.groupIds)),
+    [collections]
+  );
+
+  useEffect(() => {
+    writeCollections(collections);
+  }, [collections]);
+
+  const togglePin = (groupId: string) => {
+    setCollections(prev => toggleInCollection(prev, PINNED_COLLECTION_ID, groupId));
+  };
+
+  // Comparison tray
+  const [compareGroups, setCompareGroups] = useState<string[]>(() => {
     try {
-      const cached = localStorage.getItem('pinned_groups');
+      const cached = localStorage.getItem('compare_groups');
       return cached ? JSON.parse(cached) : [];
     } catch (e) {
       return [];
     }
   });
 
-  // Save pinned groups
   useEffect(() => {
-    localStorage.setItem('pinned_groups', JSON.stringify(pinnedGroups));
-  }, [pinnedGroups]);
+    localStorage.setItem('compare_groups', JSON.stringify(compareGroups));
+  }, [compareGroups]);
 
-  const togglePin = (groupId: string) => {
-    setPinnedGroups(prev => {
-      if (prev.includes(groupId)) {
-        return prev.filter(id => id !== groupId);
-      } else {
-        return [...prev, groupId];
-      }
+  const toggleCompare = (groupId: string) => {
+    setCompareGroups(prev => {
+      if (prev.includes(groupId)) return prev.filter(id => id !== groupId);
+      return prev.length < MAX_COMPARE ? [...prev, groupId] : prev;
     });
   };
 
-  // Only show initial loading state if we have no cached themes
-  const [loadingInitial, setLoadingInitial] = useState(themeGroups.length === 0);
+  // Stays true until either the cache or the network has produced themes
+  const [loadingInitial, setLoadingInitial] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
 
-  // Persisted filter states
-  const [searchTerm, setSearchTerm] = useState(() => localStorage.getItem('gallery_search') || '');
-  const [sortOption, setSortOption] = useState<SortOption>(() =>
-    (localStorage.getItem('gallery_sort_option') as SortOption) || SortOption.STARS
-  );
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(() =>
-    (localStorage.getItem('gallery_sort_order') as 'asc' | 'desc') || 'desc'
-  );
+  // GitHub API quota, as reported by the request scheduler
+  const [rateLimit, setRateLimit] = useState<RateLimitState>(getRateLimit);
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => subscribeRateLimit(setRateLimit), []);
 
-  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
+  // Keep the reset countdown current
+  useEffect(() => {
+    if (!rateLimit.reset) return;
+    const id = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(id);
+  }, [rateLimit.reset]);
+
+  const resetMinutes = rateLimit.reset ? Math.max(0, Math.ceil((rateLimit.reset - now) / 60000)) : null;
+  const isRateLimited = rateLimit.waiting || rateLimit.remaining === 0;
+
+  // GitHub token settings
+  const [showTokenDialog, setShowTokenDialog] = useState(false);
+  const [hasToken, setHasToken] = useState(() => !!getToken());
+
+  // Filter states, from the URL when it has any and from the last visit otherwise
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialState] = useState(() =>
+    settleSort(hasGalleryParams(searchParams) ? readGalleryParams(searchParams) : readStoredGalleryState())
+  );
+  const [searchTerm, setSearchTerm] = useState(initialState.search);
+  const [sortOption, setSortOption] = useState<SortOption>(initialState.sortOption);
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(initialState.sortOrder);
+  const [trendingDays, setTrendingDays] = useState(initialState.trendingDays);
+  const [styleFilter, setStyleFilter] = useState<StyleFilter>(initialState.styleFilter);
+  const [facets, setFacets] = useState<FacetFilters>(initialState.facets);
+  const [showFacets, setShowFacets] = useState(() => localStorage.getItem('gallery_facets_open') === 'true');
+  // Palettes only exist in data generated with --palette; without them the style filters would hide every theme
+  const hasPalettes = useMemo(() => themeGroups.length === 0 || themeGroups.some(g => g.themes.some(t => t.palette)), [themeGroups]);
+  const activeStyleFilter = useMemo((): StyleFilter => (hasPalettes ? styleFilter : {}), [hasPalettes, styleFilter]);
+  const styleFilterCount = Object.values(activeStyleFilter).filter(Boolean).length;
+  const activeFilterCount = styleFilterCount + countActiveFacets(facets);
+
+  // Cards start on a dark variant when the site itself is dark
+  const preferDark = themeMode === 'dark' || (themeMode === 'system' && window.matchMedia('(prefers-color-scheme: dark)').matches);
+
+  // Star counts recorded on previous loads, used for the trending sort
+  const [starHistory, setStarHistory] = useState<StarHistory>({});
+
+  // Post bodies for full-text search, fetched the first time someone searches; null when there is no index
+  const [postTexts, setPostTexts] = useState<PostTextIndex | null | undefined>(undefined);
+
+  // Pagination, scroll position and card variants of this exact view, kept while visiting theme pages
+  const location = useLocation();
+  const viewRef = useRef<GalleryView | undefined>(undefined);
+  const view = getGalleryView(location.search, ITEMS_PER_PAGE, viewRef.current);
+  viewRef.current = view;
+  const pendingScroll = useRef(view.scrollY);
+  const galleryRef = useRef<HTMLDivElement>(null);
+
+  const [visibleCount, setVisibleCount] = useState(view.visibleCount);
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const [showBackToTop, setShowBackToTop] = useState(false);
 
@@ -104,12 +210,53 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
     localStorage.setItem('gallery_search', searchTerm);
     localStorage.setItem('gallery_sort_option', sortOption);
     localStorage.setItem('gallery_sort_order', sortOrder);
-  }, [searchTerm, sortOption, sortOrder]);
+    localStorage.setItem('gallery_trending_days', String(trendingDays));
+    localStorage.setItem('gallery_style_filter', JSON.stringify(styleFilter));
+    localStorage.setItem('gallery_facets', JSON.stringify(facets));
+    localStorage.setItem('gallery_facets_open', String(showFacets));
+  }, [searchTerm, sortOption, sortOrder, trendingDays, styleFilter, facets, showFacets]);
+
+  // Mirror the filter states in the query string so views can be shared and history works
+  const galleryParams = writeGalleryParams(
+    { search: searchTerm, sortOption, sortOrder, trendingDays, styleFilter, facets },
+    searchParams
+  ).toString();
+  const urlParams = searchParams.toString();
+  const writtenParams = useRef(urlParams); // The mount URL is already reflected in the initial state
+  const lastSearch = useRef(searchTerm);
+
+  // Back/forward and links within the app: take the view from the URL
+  useEffect(() => {
+    if (urlParams === writtenParams.current) return;
+    writtenParams.current = urlParams;
+    const state = settleSort(readGalleryParams(searchParams));
+    lastSearch.current = state.search;
+    setSearchTerm(state.search);
+    setSortOption(state.sortOption);
+    setSortOrder(state.sortOrder);
+    setTrendingDays(state.trendingDays);
+    setStyleFilter(state.styleFilter);
+    setFacets(state.facets);
+  }, [urlParams]);
+
+  const isFirstWrite = useRef(true);
+  useEffect(() => {
+    if (galleryParams === urlParams || galleryParams === writtenParams.current) return;
+    // The first write only spells out the restored view, and typing refines
+    // the current search rather than adding a history entry per keystroke
+    const replace = isFirstWrite.current || (!!lastSearch.current && !!searchTerm && lastSearch.current !== searchTerm);
+    isFirstWrite.current = false;
+    lastSearch.current = searchTerm;
+    writtenParams.current = galleryParams;
+    setSearchParams(galleryParams, { replace });
+  }, [galleryParams]);
 
 
   // Back to Top Scroll Listener
   useEffect(() => {
     const handleScroll = () => {
+      // Late events from the page that replaced the gallery don't count
+      if (galleryRef.current?.isConnected && viewRef.current) viewRef.current.scrollY = window.scrollY;
       if (window.scrollY > 300) {
         setShowBackToTop(true);
       } else {
@@ -128,54 +275,57 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
     });
   };
 
-  // Helper to group themes
-  const groupThemes = (themes: ThemeItem[]): ThemeGroup[] => {
-    const groups: { [key: string]: ThemeGroup } = {};
-
-    themes.forEach(theme => {
-      const repoOwner = theme.repoOwner || 'unknown';
-      const repoName = theme.repoName || 'unknown';
-      const groupId = `${repoOwner}/${repoName}`;
-
-      if (!groups[groupId]) {
-        groups[groupId] = {
-          id: groupId,
-          repoOwner,
-          repoName,
-          themes: [],
-          loadingStats: true // Default to loading stats
-        };
-      }
-      groups[groupId].themes.push(theme);
-    });
-
-    return Object.values(groups);
-  };
-
-
   // Track themeGroups with a ref for use in useCallback without creating loops
   const themeGroupsRef = useRef(themeGroups);
   useEffect(() => {
     themeGroupsRef.current = themeGroups;
   }, [themeGroups]);
 
-  // Core fetch logic using pre-built static JSON
+  // Core fetch logic: serve the cached dataset instantly, then revalidate it from the network
   const loadData = useCallback(async (force = false) => {
-    if (!force && themeGroupsRef.current.length > 0) return;
+    setFetchError(null);
+    let hasData = themeGroupsRef.current.length > 0;
+
+    readStarHistory().then(setStarHistory);
+
+    if (!force) {
+      const cached = await readThemeDataset();
+      if (cached) {
+        setThemeGroups(cached.data.groups);
+        setGeneratedAt(cached.data.generatedAt);
+        setLoadingInitial(false);
+        if (!isCacheStale(cached)) return;
+        hasData = true;
+      }
+    }
 
-    if (themeGroupsRef.current.length === 0) {
+    if (!hasData) {
       setLoadingInitial(true);
     }
-    setFetchError(null);
-    try {
-      // Try to fetch static JSON first (fast, no rate limit)
-      const groups = await fetchThemesFromStatic(force);
-
-      setThemeGroups(groups);
+    if (force) {
       setVisibleCount(ITEMS_PER_PAGE); // Reset pagination on full reload
+    }
+    try {
+      // A background revalidation keeps showing stale data rather than rebuilding the grid
+      // from the live GitHub API, which is slow and progressive
+      const rebuild = force || !hasData;
+      const dataset = await loadThemeDataset({
+        allowFallback: rebuild,
+        onProgress: rebuild ? (groups) => {
+          setThemeGroups(groups);
+          setLoadingInitial(false);
+        } : undefined,
+      });
+
+      setThemeGroups(dataset.groups);
+      setGeneratedAt(dataset.generatedAt);
+      await writeThemeDataset(dataset);
+      setStarHistory(await recordStarSnapshots(dataset.groups, dataset.generatedAt));
     } catch (error: any) {
       console.error("Failed to load themes", error);
-      setFetchError(error.message || "Failed to load themes.");
+      if (!hasData) {
+        setFetchError(error.message || "Failed to load themes.");
+      }
     } finally {
       setLoadingInitial(false);
     }
@@ -183,11 +333,8 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
 
   // 1. Initial Load
   useEffect(() => {
-    // Only load automatically if we have NO cached data
-    if (themeGroups.length === 0) {
-      loadData();
-    }
-  }, [loadData, themeGroups.length]);
+    loadData();
+  }, [loadData]);
 
   // If loading while we already have data, it means it's a manual refresh
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -201,28 +348,84 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
 
 
   // 3. Filtering & Sorting Logic
-  const processedGroups = useMemo(() => {
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm, hasPalettes), [searchTerm, hasPalettes]);
+  const searchIndex = useMemo(() => buildSearchIndex(themeGroups, postTexts), [themeGroups, postTexts]);
+  const isSearching = searchQuery.terms.length > 0;
+
+  useEffect(() => {
+    if (isSearching && postTexts === undefined) loadPostTextIndex().then(setPostTexts);
+  }, [isSearching, postTexts]);
+
+  // Trending needs star history from earlier visits; first-time visitors sort by stars instead
+  const trendingAvailable = hasStarTrends(starHistory);
+  const activeSort = sortOption === SortOption.TRENDING && !trendingAvailable ? SortOption.STARS : sortOption;
+  const availableSortOptions = baseSortOptions.filter(option => option !== SortOption.TRENDING || trendingAvailable);
+  const sortOptions = isSearching ? [SortOption.RELEVANCE, ...availableSortOptions] : availableSortOptions;
+
+  // Relevance becomes the sort when a search starts; the previous sort comes back when it ends.
+  // Done alongside the search change so both land in the same history entry.
+  const sortBeforeSearch = useRef<{ option: SortOption; order: 'asc' | 'desc' } | null>(null);
+  const handleSearchChange = (value: string) => {
+    const searching = parseSearchQuery(value).terms.length > 0;
+    if (searching && !isSearching) {
+      sortBeforeSearch.current = { option: sortOption, order: sortOrder };
+      setSortOption(SortOption.RELEVANCE);
+      setSortOrder('desc');
+    } else if (!searching && isSearching) {
+      const previous = sortBeforeSearch.current;
+      sortBeforeSearch.current = null;
+      if (sortOption === SortOption.RELEVANCE) {
+        setSortOption(previous?.option || SortOption.STARS);
+        setSortOrder(previous?.order || 'desc');
+      }
+    }
+    setSearchTerm(value);
+  };
+
+  // Known values offered by the search box autocomplete
+  const searchVocabulary = useMemo((): SearchVocabulary => {
+    const collect = (values: (string | undefined)[]) =>
+      [...new Set(values.map(v => v?.trim()).filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b));
+    const themes = themeGroups.flatMap(g => g.themes);
+    return {
+      authors: collect(themes.map(t => t.author)),
+      licenses: collect(themeGroups.map(g => g.stats?.license)),
+      categories: collect(themes.map(t => t.category?.toLowerCase())),
+      tags: collect(themes.flatMap(t => t.tags || [])),
+    };
+  }, [themeGroups]);
+
+  // Search and style filters narrow the groups the facet sidebar counts
+  const searchedGroups = useMemo(() => {
     let result = [...themeGroups];
 
-    // Filter - Check if ANY theme in the group matches
-    if (searchTerm) {
-      const lowerTerm = searchTerm.toLowerCase();
+    // Style filters - keep groups with at least one matching variant and show that variant
+    if (styleFilterCount > 0) {
       result = result.map(g => {
-        // Find the first theme that matches
-        const matchedTheme = g.themes.find(t =>
-          (t.title || '').toLowerCase().includes(lowerTerm) ||
-          (t.author || '').toLowerCase().includes(lowerTerm) ||
-          (t.description || '').toLowerCase().includes(lowerTerm)
-        );
-
-        // If found, return group with matchedThemeId
-        if (matchedTheme) {
-          return { ...g, matchedThemeId: matchedTheme.id };
-        }
-        return null;
+        const matchedTheme = g.themes.find(t => matchesStyleFilter(t, activeStyleFilter));
+        return matchedTheme ? { ...g, matchedThemeId: matchedTheme.id } : null;
       }).filter((g): g is ThemeGroup => g !== null);
     }
 
+    // Search query - keep groups with a variant matching every qualifier, ranked by how well it matches the terms
+    if (!isEmptyQuery(searchQuery)) {
+      result = result.map(g => {
+        if (!matchesGroupQualifiers(g, searchQuery)) return null;
+        const candidates = g.themes.filter(t => matchesStyleFilter(t, activeStyleFilter) && matchesThemeQualifiers(t, g, searchQuery));
+        if (candidates.length === 0) return null;
+        if (searchQuery.terms.length === 0) return { ...g, matchedThemeId: candidates[0].id };
+
+        const match = searchThemes(searchIndex, candidates, searchQuery.terms);
+        return match ? { ...g, matchedThemeId: match.theme.id, matchScore: match.score, matchHighlights: match.highlights, matchSnippet: match.snippet } : null;
+      }).filter((g): g is ThemeGroup => g !== null);
+    }
+
+    return result;
+  }, [themeGroups, searchQuery, searchIndex, activeStyleFilter, styleFilterCount]);
+
+  const processedGroups = useMemo(() => {
+    const result = searchedGroups.filter(g => matchesFacets(g, facets));
+
     // Sort
     result.sort((a, b) => {
       // If NOT searching, prioritize pinned items
@@ -234,7 +437,7 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
       }
 
       let comparison = 0;
-      switch (sortOption) {
+      switch (activeSort) {
         case SortOption.STARS:
           comparison = (a.stats?.stars || 0) - (b.stats?.stars || 0);
           break;
@@ -248,23 +451,52 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
           const titleB = b.themes[0]?.title || '';
           comparison = b.themes[0]?.title ? titleA.localeCompare(titleB) : comparison;
           break;
+        case SortOption.TRENDING:
+          comparison = getStarsGained(starHistory[a.id], a.stats?.stars || 0, trendingDays)
+            - getStarsGained(starHistory[b.id], b.stats?.stars || 0, trendingDays);
+          break;
+        case SortOption.RELEVANCE:
+          comparison = (a.matchScore || 0) - (b.matchScore || 0);
+          break;
       }
 
       return sortOrder === 'desc' ? -comparison : comparison;
     });
 
     return result;
-  }, [themeGroups, searchTerm, sortOption, sortOrder, pinnedGroups]);
+  }, [searchedGroups, facets, searchTerm, activeSort, sortOrder, pinnedGroups, starHistory, trendingDays]);
+
+  // Only label sources on cards when entries come from more than one
+  const pickerGroup = collectionPickerId ? themeGroups.find(g => g.id === collectionPickerId) : undefined;
+
+  const showSource = useMemo(() => {
+    const sources = new Set(themeGroups.flatMap(g => g.themes.map(t => t.source || g.source)));
+    return sources.size > 1;
+  }, [themeGroups]);
 
   // 4. Infinite Scroll Logic
   const visibleGroups = useMemo(() => {
     return processedGroups.slice(0, visibleCount);
   }, [processedGroups, visibleCount]);
 
-  // Reset page size when search, sort option, or sort order changes
+  // Reset page size when search, sort option, or sort order changes (but not when a view is restored)
+  const lastFilters = useRef(galleryParams);
   useEffect(() => {
+    if (lastFilters.current === galleryParams) return;
+    lastFilters.current = galleryParams;
     setVisibleCount(ITEMS_PER_PAGE);
-  }, [searchTerm, sortOption, sortOrder]);
+  }, [galleryParams]);
+
+  useEffect(() => {
+    view.visibleCount = visibleCount;
+  }, [view, visibleCount]);
+
+  // Back at a view seen before: scroll to where the user was once its cards are on the page
+  useEffect(() => {
+    if (!pendingScroll.current || loadingInitial || visibleGroups.length === 0) return;
+    window.scrollTo(0, pendingScroll.current);
+    pendingScroll.current = 0;
+  }, [loadingInitial, visibleGroups.length]);
 
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -285,7 +517,7 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
 
 
   return (
-    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col transition-colors duration-300">
+    <div ref={galleryRef} className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col transition-colors duration-300">
       {/* Header (Sticky) */}
       <header className="sticky top-0 z-50 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 py-3 transition-colors duration-300">
         <div className="max-w-[125rem] mx-auto px-4 sm:px-8 lg:px-12">
@@ -298,6 +530,26 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
 
               {/* Mobile View Toggle/Menu could go here if needed, but keeping it simple for now */}
               <div className="flex lg:hidden items-center gap-2">
+                <button
+                  onClick={() => setShowFacets(!showFacets)}
+                  className={`p-2 transition-colors ${showFacets || activeFilterCount > 0 ? 'text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400 hover:text-brand-600'}`}
+                  title={t.filters}
+                >
+                  <SlidersHorizontal size={18} />
+                </button>
+                <Link to="/collections" className="p-2 text-gray-500 dark:text-gray-400 hover:text-brand-600 transition-colors" title={t.collections}>
+                  <FolderHeart size={18} />
+                </Link>
+                <Link to="/stats" className="p-2 text-gray-500 dark:text-gray-400 hover:text-brand-600 transition-colors" title={t.stats}>
+                  <BarChart3 size={18} />
+                </Link>
+                <button
+                  onClick={() => setShowTokenDialog(true)}
+                  className={`p-2 transition-colors ${hasToken ? 'text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400 hover:text-brand-600'}`}
+                  title={hasToken ? t.tokenSet : t.setToken}
+                >
+                  <KeyRound size={18} />
+                </button>
                 <button
                   onClick={handleFullRefresh}
                   disabled={isRefreshing}
@@ -313,30 +565,27 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
 
             {/* Middle: Search Box */}
             <div className="w-full lg:max-w-md xl:max-w-2xl flex-grow min-w-0">
-              <div className="relative group">
-                <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 group-focus-within:text-brand-500 transition-colors pointer-events-none">
-                  <Search size={18} />
-                </div>
-                <input
-                  type="text"
-                  placeholder={t.searchPlaceholder}
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full pl-9 pr-9 h-10 bg-gray-100 dark:bg-gray-900/50 border border-transparent focus:border-brand-500 dark:focus:border-brand-500 rounded-full focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:bg-white dark:focus:bg-gray-800 transition-all text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
-                />
-                {searchTerm && (
-                  <button
-                    onClick={() => setSearchTerm('')}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
-                  >
-                    <X size={14} />
-                  </button>
-                )}
-              </div>
+              <SearchBox
+                value={searchTerm}
+                onChange={handleSearchChange}
+                errors={searchQuery.errors}
+                vocabulary={searchVocabulary}
+                t={t}
+              />
             </div>
 
             {/* Right: Controls & Utilities */}
             <div className="hidden lg:flex items-center gap-3 flex-shrink-0">
+              {/* Filter Sidebar Toggle */}
+              <button
+                onClick={() => setShowFacets(!showFacets)}
+                className={`flex items-center gap-1.5 px-3 py-2 rounded-lg text-xs font-semibold border transition-colors ${showFacets || activeFilterCount > 0 ? 'border-brand-500 text-brand-600 dark:text-brand-400 bg-brand-50 dark:bg-brand-900/20' : 'border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-900/50 hover:text-brand-600 dark:hover:text-brand-400'}`}
+              >
+                <SlidersHorizontal size={14} />
+                {t.filters}
+                {activeFilterCount > 0 && <span className="px-1.5 rounded-full bg-brand-600 text-white text-[10px]">{activeFilterCount}</span>}
+              </button>
+
               {/* Sort & Order */}
               <div className="flex items-center bg-gray-100 dark:bg-gray-900/50 rounded-lg p-0.5 border border-gray-200 dark:border-gray-700">
                 <div className="relative" ref={sortMenuRef}>
@@ -344,30 +593,37 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
                     onClick={() => setShowSortMenu(!showSortMenu)}
                     className="flex items-center gap-1.5 pl-3 pr-2 py-1.5 text-xs font-semibold text-gray-700 dark:text-gray-200 hover:text-brand-600 dark:hover:text-brand-400 transition-colors"
                   >
-                    {sortOption === SortOption.STARS ? t.sortStars : sortOption === SortOption.UPDATED ? t.sortUpdated : t.sortName}
+                    {sortLabels[activeSort]}
                     <ChevronDown size={12} className={`opacity-50 transition-transform duration-200 ${showSortMenu ? 'rotate-180' : ''}`} />
                   </button>
 
                   {showSortMenu && (
                     <div className="absolute left-0 mt-2 w-36 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50 animate-in fade-in slide-in-from-top-1 duration-200">
-                      <button
-                        onClick={() => { setSortOption(SortOption.STARS); setShowSortMenu(false); }}
-                        className={`w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 text-xs transition-colors ${sortOption === SortOption.STARS ? 'text-brand-600 dark:text-brand-400 font-bold' : 'text-gray-700 dark:text-gray-200'}`}
-                      >
-                        {t.sortStars}
-                      </button>
-                      <button
-                        onClick={() => { setSortOption(SortOption.UPDATED); setShowSortMenu(false); }}
-                        className={`w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 text-xs transition-colors ${sortOption === SortOption.UPDATED ? 'text-brand-600 dark:text-brand-400 font-bold' : 'text-gray-700 dark:text-gray-200'}`}
-                      >
-                        {t.sortUpdated}
-                      </button>
-                      <button
-                        onClick={() => { setSortOption(SortOption.NAME); setShowSortMenu(false); }}
-                        className={`w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 text-xs transition-colors ${sortOption === SortOption.NAME ? 'text-brand-600 dark:text-brand-400 font-bold' : 'text-gray-700 dark:text-gray-200'}`}
-                      >
-                        {t.sortName}
-                      </button>
+                      {sortOptions.map(option => (
+                        <button
+                          key={option}
+                          onClick={() => { setSortOption(option); setShowSortMenu(false); }}
+                          className={`w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 text-xs transition-colors ${activeSort === option ? 'text-brand-600 dark:text-brand-400 font-bold' : 'text-gray-700 dark:text-gray-200'}`}
+                        >
+                          {sortLabels[option]}
+                        </button>
+                      ))}
+                      {activeSort === SortOption.TRENDING && (
+                        <div className="px-4 pt-2 pb-1 mt-1 border-t border-gray-100 dark:border-gray-700">
+                          <div className="text-[10px] text-gray-400 mb-1">{t.trendingWindow}</div>
+                          <div className="flex gap-1">
+                            {TRENDING_WINDOWS.map(days => (
+                              <button
+                                key={days}
+                                onClick={() => setTrendingDays(days)}
+                                className={`flex-1 py-0.5 rounded text-[10px] transition-colors ${trendingDays === days ? 'bg-brand-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:text-brand-600'}`}
+                              >
+                                {days}{t.days}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -385,6 +641,33 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
 
               <div className="w-px h-6 bg-gray-200 dark:bg-gray-700 mx-1"></div>
 
+              {/* Collections */}
+              <Link
+                to="/collections"
+                className="p-2 rounded-lg text-gray-500 dark:text-gray-400 hover:text-brand-600 dark:hover:text-brand-400 hover:bg-gray-100 dark:hover:bg-gray-900 transition-all"
+                title={t.collections}
+              >
+                <FolderHeart size={18} />
+              </Link>
+
+              {/* Statistics */}
+              <Link
+                to="/stats"
+                className="p-2 rounded-lg text-gray-500 dark:text-gray-400 hover:text-brand-600 dark:hover:text-brand-400 hover:bg-gray-100 dark:hover:bg-gray-900 transition-all"
+                title={t.stats}
+              >
+                <BarChart3 size={18} />
+              </Link>
+
+              {/* GitHub Token */}
+              <button
+                onClick={() => setShowTokenDialog(true)}
+                className={`p-2 rounded-lg transition-all hover:bg-gray-100 dark:hover:bg-gray-900 ${hasToken ? 'text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400 hover:text-brand-600 dark:hover:text-brand-400'}`}
+                title={hasToken ? t.tokenSet : t.setToken}
+              >
+                <KeyRound size={18} />
+              </button>
+
               {/* Refresh */}
               <button
                 onClick={handleFullRefresh}
@@ -442,71 +725,126 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
           </div>
 
           {/* Status info (compact) */}
-          <div className="hidden lg:flex justify-end mt-1 px-4 text-[10px] text-gray-400 dark:text-gray-500 font-medium tracking-wider uppercase">
-            {processedGroups.length} {t.themesCount}
+          <div className="hidden lg:flex justify-end gap-4 mt-1 px-4 text-[10px] text-gray-400 dark:text-gray-500 font-medium tracking-wider uppercase">
+            {generatedAt && (
+              <span>{t.dataGeneratedAt} {formatDateCustom(generatedAt, 'yyyy.MM.dd HH:mm')}</span>
+            )}
+            {rateLimit.remaining !== null && (
+              <span>
+                {t.apiQuota} {rateLimit.remaining}/{rateLimit.limit}
+                {resetMinutes !== null && ` · ${t.resetsIn} ${resetMinutes} ${t.minutes}`}
+              </span>
+            )}
+            {isSearching && postTexts === null && <span>{t.fullTextUnavailable}</span>}
+            <span>{processedGroups.length} {t.themesCount}</span>
           </div>
         </div>
       </header>
 
+      {/* Rate limit notice */}
+      {isRateLimited && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300 text-xs">
+          <div className="max-w-[125rem] mx-auto px-4 sm:px-8 lg:px-12 py-2 flex items-center gap-2">
+            <AlertCircle size={14} className="flex-shrink-0" />
+            <span className="font-semibold">{t.rateLimit}</span>
+            <span>{t.rateLimitDesc}</span>
+            {resetMinutes !== null && <span className="opacity-70">({t.resetsIn} {resetMinutes} {t.minutes})</span>}
+            {!hasToken && (
+              <button onClick={() => setShowTokenDialog(true)} className="ml-auto font-semibold underline hover:no-underline">
+                {t.addToken}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Main Grid */}
-      <main className="flex-grow max-w-[125rem] mx-auto px-4 sm:px-8 lg:px-12 py-8 w-full">
-        {loadingInitial ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-6 gap-6 animate-pulse">
-            {[...Array(12)].map((_, i) => (
-              <div key={i} className="bg-white dark:bg-gray-800 rounded-xl h-80 shadow-sm border border-gray-100 dark:border-gray-700"></div>
-            ))}
+      <main className="flex-grow max-w-[125rem] mx-auto px-4 sm:px-8 lg:px-12 py-8 w-full flex flex-col lg:flex-row lg:items-start gap-6">
+        {showFacets && !loadingInitial && !fetchError && (
+          <div className="w-full lg:w-64 flex-shrink-0 lg:sticky lg:top-28 lg:max-h-[calc(100vh-8rem)] lg:overflow-y-auto no-scrollbar">
+            <FacetSidebar
+              groups={searchedGroups}
+              facets={facets}
+              setFacets={setFacets}
+              styleFilter={styleFilter}
+              setStyleFilter={setStyleFilter}
+              hasPalettes={hasPalettes}
+              onClose={() => setShowFacets(false)}
+              t={t}
+            />
           </div>
-        ) : fetchError ? (
-          <div className="text-center py-20 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm max-w-2xl mx-auto">
-            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-red-50 dark:bg-red-900/20 mb-4">
-              <AlertCircle className="text-red-500" size={32} />
+        )}
+        <div className="flex-grow min-w-0">
+          {loadingInitial ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-6 gap-6 animate-pulse">
+              {[...Array(12)].map((_, i) => (
+                <div key={i} className="bg-white dark:bg-gray-800 rounded-xl h-80 shadow-sm border border-gray-100 dark:border-gray-700"></div>
+              ))}
             </div>
-            <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t.loadError}</h3>
-            <p className="text-gray-500 dark:text-gray-400 mt-2 max-w-md mx-auto px-4">{fetchError}</p>
+          ) : fetchError ? (
+            <div className="text-center py-20 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm max-w-2xl mx-auto">
+              <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-red-50 dark:bg-red-900/20 mb-4">
+                <AlertCircle className="text-red-500" size={32} />
+              </div>
+              <h3 className="text-lg font-bold text-gray-900 dark:text-white">{t.loadError}</h3>
+              <p className="text-gray-500 dark:text-gray-400 mt-2 max-w-md mx-auto px-4">{fetchError}</p>
 
-            <div className="mt-8 flex flex-col items-center gap-4">
-              <button
-                onClick={handleFullRefresh}
-                className="inline-flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-md shadow hover:bg-brand-700 transition-colors"
-              >
-                <RefreshCw size={18} />
-                {t.retry}
-              </button>
+              <div className="mt-8 flex flex-col items-center gap-4">
+                <button
+                  onClick={handleFullRefresh}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-md shadow hover:bg-brand-700 transition-colors"
+                >
+                  <RefreshCw size={18} />
+                  {t.retry}
+                </button>
+              </div>
             </div>
-          </div>
-        ) : (
-          <>
-            {visibleGroups.length > 0 ? (
-              <>
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 3xl:grid-cols-6 gap-6">
-                  {visibleGroups.map(group => (
-                    <ThemeCard
-                      key={group.id}
-                      group={group}
-                      isPinned={pinnedGroups.includes(group.id)}
-                      onTogglePin={() => togglePin(group.id)}
-                      t={t}
-                    />
-                  ))}
-                </div>
-                {/* Infinite Scroll Sentinel */}
-                <div ref={loadMoreRef} className="h-20 w-full flex items-center justify-center mt-8">
-                  {visibleCount < processedGroups.length && (
-                    <Loader2 className="animate-spin text-brand-500" />
+          ) : (
+            <>
+              {visibleGroups.length > 0 ? (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 3xl:grid-cols-6 gap-6">
+                    {visibleGroups.map(group => (
+                      <ThemeCard
+                        key={group.id}
+                        group={group}
+                        isPinned={pinnedGroups.includes(group.id)}
+                        onTogglePin={() => togglePin(group.id)}
+                        isCollected={collectedGroups.has(group.id)}
+                        onOpenCollections={() => setCollectionPickerId(group.id)}
+                        isCompared={compareGroups.includes(group.id)}
+                        onToggleCompare={() => toggleCompare(group.id)}
+                        compareFull={compareGroups.length >= MAX_COMPARE}
+                        showSource={showSource}
+                        preferDark={preferDark}
+                        restoredThemeId={view.activeThemes[group.id]}
+                        onActiveThemeChange={(themeId) => { view.activeThemes[group.id] = themeId; }}
+                        t={t}
+                      />
+                    ))}
+                  </div>
+                  {/* Infinite Scroll Sentinel */}
+                  <div ref={loadMoreRef} className="h-20 w-full flex items-center justify-center mt-8">
+                    {visibleCount < processedGroups.length && (
+                      <Loader2 className="animate-spin text-brand-500" />
+                    )}
+                  </div>
+                </>
+              ) : (
+                <div className="text-center py-20">
+                  <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-800 mb-4">
+                    <Search className="text-gray-400" size={32} />
+                  </div>
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t.noThemes}</h3>
+                  <p className="text-gray-500 dark:text-gray-400 mt-2">{t.noThemesDesc}</p>
+                  {isSearching && postTexts === null && (
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{t.fullTextUnavailable}</p>
                   )}
                 </div>
-              </>
-            ) : (
-              <div className="text-center py-20">
-                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 dark:bg-gray-800 mb-4">
-                  <Search className="text-gray-400" size={32} />
-                </div>
-                <h3 className="text-lg font-medium text-gray-900 dark:text-white">{t.noThemes}</h3>
-                <p className="text-gray-500 dark:text-gray-400 mt-2">{t.noThemesDesc}</p>
-              </div>
-            )}
-          </>
-        )}
+              )}
+            </>
+          )}
+        </div>
       </main>
 
       {/* Footer */}
@@ -521,6 +859,58 @@ const Gallery: React.FC<GalleryProps> = ({ themeMode, setThemeMode, lang, setLan
         </div>
       </footer>
 
+      {showTokenDialog && (
+        <TokenDialog t={t} onClose={() => setShowTokenDialog(false)} onTokenChange={setHasToken} />
+      )}
+
+      {pickerGroup && (
+        <CollectionPicker
+          group={pickerGroup}
+          collections={collections}
+          setCollections={setCollections}
+          onClose={() => setCollectionPickerId(null)}
+          t={t}
+        />
+      )}
+
+      {/* Comparison Tray */}
+      {compareGroups.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 pl-3 pr-2 py-2 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 animate-fade-in">
+          <div className="flex items-center gap-2">
+            {compareGroups.map(id => {
+              const group = themeGroups.find(g => g.id === id);
+              return (
+                <div key={id} className="relative w-12 h-10 rounded-lg overflow-hidden border border-gray-200 dark:border-gray-600 bg-gray-100 dark:bg-gray-900" title={group?.themes[0].title || id}>
+                  {group && <img src={group.themes[0].thumbnail} alt="" className="w-full h-full object-cover object-top" />}
+                  <button
+                    onClick={() => toggleCompare(id)}
+                    className="absolute top-0 right-0 p-0.5 bg-black/60 text-white rounded-bl-md hover:bg-red-500 transition-colors"
+                    title={t.removeFromCompare}
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <span className="hidden sm:block text-xs text-gray-500 dark:text-gray-400 max-w-[8rem]">{compareGroups.length < 2 ? t.compareHint : `${compareGroups.length} / ${MAX_COMPARE}`}</span>
+          <button
+            onClick={() => setCompareGroups([])}
+            className="px-2 py-1.5 text-xs text-gray-500 dark:text-gray-400 hover:text-red-500 rounded-lg transition-colors"
+          >
+            {t.clearCompare}
+          </button>
+          <Link
+            to={`/compare?ids=${compareGroups.map(encodeURIComponent).join(',')}`}
+            onClick={(e) => { if (compareGroups.length < 2) e.preventDefault(); }}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium text-white transition-colors ${compareGroups.length < 2 ? 'bg-gray-300 dark:bg-gray-600 cursor-not-allowed' : 'bg-brand-600 hover:bg-brand-700'}`}
+          >
+            <GitCompare size={16} />
+            {t.compare}
+          </Link>
+        </div>
+      )}
+
       {/* Back to Top Button */}
       {showBackToTop && (
         <button
@@ -597,7 +987,13 @@ export default function App() {
   return (
     <Routes>
       <Route path="/" element={<Gallery themeMode={themeMode} setThemeMode={setThemeMode} lang={lang} setLang={setLang} />} />
-      <Route path="/theme/:id" element={<ThemeDetail />} />
+      <Route path="/theme/:id" element={<ThemeDetail lang={lang} />} />
+      <Route path="/compare" element={<CompareView lang={lang} />} />
+      <Route path="/collections" element={<CollectionsView lang={lang} />} />
+      <Route path="/collection" element={<SharedCollectionView lang={lang} />} />
+      <Route path="/author/:owner" element={<AuthorView lang={lang} />} />
+      <Route path="/stats" element={<StatsView lang={lang} />} />
+      <Route path="/diagnostics" element={<Diagnostics />} />
     </Routes>
   );
 }
\ No newline at end of file
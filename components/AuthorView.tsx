@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, Star, Layers, Clock, ExternalLink } from 'lucide-react';
+import { useThemeDataset } from '../hooks/useThemeDataset';
+import { formatDateCustom } from '@caolib/time-util';
+import { RepoRef, groupRepoRef, forgeLabel, ownerUrl } from '../utils/repoRef';
+import { Language, translations } from '../utils/i18n';
+
+/**
+ * In-app page of a repository owner; GitLab owners may contain slashes, hence the encoding
+ */
+export const authorPath = (owner: string): string => `/author/${encodeURIComponent(owner)}`;
+
+const commitTime = (lastCommitAt?: string) => (lastCommitAt ? new Date(lastCommitAt).getTime() || 0 : 0);
+
+/**
+ * Everything one owner has published, most recently active first
+ */
+export const AuthorView: React.FC<{ lang: Language }> = ({ lang }) => {
+  const t = translations[lang];
+  const { owner = '' } = useParams<{ owner: string }>();
+  const decodedOwner = decodeURIComponent(owner);
+
+  const { dataset, error } = useThemeDataset();
+
+  const groups = useMemo(() =>
+    (dataset?.groups || [])
+      .filter(g => g.repoOwner.toLowerCase() === decodedOwner.toLowerCase())
+      .sort((a, b) => commitTime(b.stats?.lastCommitAt) - commitTime(a.stats?.lastCommitAt)),
+    [dataset, decodedOwner]
+  );
+
+  const totalStars = groups.reduce((sum, g) => sum + (g.stats?.stars || 0), 0);
+  const variantCount = groups.reduce((sum, g) => sum + g.themes.length, 0);
+  const latest = groups.find(g => g.stats?.lastCommitAt);
+  // Names the owner signs their posts with, when they differ from the account name
+  const displayNames = [...new Set<string>(groups.flatMap(g => g.themes.map(t => t.author?.trim() || '')))]
+    .filter(name => name && name.toLowerCase() !== decodedOwner.toLowerCase());
+  // Owners can publish on several forges
+  const profiles = [...new Map<string, RepoRef>(groups.map(g => [groupRepoRef(g).host, groupRepoRef(g)])).values()];
+
+  const summary = [
+    { icon: <Star size={16} className="text-amber-500 fill-amber-500" />, label: t.authorTotalStars, value: totalStars.toLocaleString() },
+    { icon: <Layers size={16} className="text-brand-500" />, label: t.authorThemes, value: t.authorThemeCount.replace('{count}', String(groups.length)).replace('{variants}', String(variantCount)) },
+    {
+      icon: <Clock size={16} className="text-brand-500" />,
+      label: t.authorLastActive,
+      value: latest ? `${formatDateCustom(latest.stats!.lastCommitAt, 'yyyy.MM.dd')} · ${latest.themes[0].title}` : '—',
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 px-4 py-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 transition">
+            <ArrowLeft size={20} />
+            <span className="font-medium hidden sm:inline">{t.back}</span>
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900 dark:text-white truncate">{decodedOwner}</h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error ? (
+          <p className="flex items-center gap-2 text-red-500"><AlertCircle size={18} /> {error}</p>
+        ) : !dataset ? (
+          <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-brand-500" /></div>
+        ) : groups.length === 0 ? (
+          <p className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+            <AlertCircle size={18} /> {t.authorNoThemes.replace('{name}', decodedOwner)}
+          </p>
+        ) : (
+          <>
+            <section className="flex flex-wrap items-center gap-4 mb-8">
+              {profiles[0].forge === 'github' && (
+                <img
+                  src={`https://github.com/${encodeURIComponent(profiles[0].owner)}.png?size=128`}
+                  alt=""
+                  className="w-16 h-16 rounded-full border border-gray-200 dark:border-gray-700"
+                />
+              )}
+              <div className="min-w-0">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">{decodedOwner}</h2>
+                {displayNames.length > 0 && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{t.authorAlsoSignsAs.replace('{names}', displayNames.join(', '))}</p>
+                )}
+                <div className="flex flex-wrap gap-3 mt-1">
+                  {profiles.map(ref => (
+                    <a
+                      key={ref.host}
+                      href={ownerUrl(ref)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-1 text-xs text-brand-600 dark:text-brand-400 hover:underline"
+                    >
+                      <ExternalLink size={12} /> {t.authorProfile.replace('{forge}', forgeLabel(ref))}
+                    </a>
+                  ))}
+                </div>
+              </div>
+            </section>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-10">
+              {summary.map(item => (
+                <div key={item.label} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 px-4 py-3">
+                  <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">{item.icon} {item.label}</div>
+                  <div className="mt-1 text-sm font-semibold text-gray-900 dark:text-white truncate">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <h2 className="text-sm font-bold text-gray-900 dark:text-white mb-3">{t.authorThemesByActivity}</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+              {groups.map(g => (
+                <Link key={g.id} to={`/theme/${encodeURIComponent(g.id)}`} className="block group">
+                  <img
+                    src={g.themes[0].thumbnail}
+                    alt={`${g.themes[0].title} preview`}
+                    loading="lazy"
+                    className="w-full aspect-[5/4] object-cover object-top rounded-xl border border-gray-200 dark:border-gray-700"
+                  />
+                  <span className="block mt-2 text-sm font-bold text-gray-900 dark:text-white group-hover:text-brand-600 dark:group-hover:text-brand-400 truncate">
+                    {g.themes[0].title}
+                  </span>
+                  <span className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="flex items-center gap-0.5">
+                      <Star size={10} className="text-amber-500 fill-amber-500" />
+                      {g.stats?.stars?.toLocaleString() ?? '—'}
+                    </span>
+                    {g.themes.length > 1 && <span>{t.variantCount.replace('{count}', String(g.themes.length))}</span>}
+                    <span className="ml-auto">{g.stats?.lastCommitAt ? formatDateCustom(g.stats.lastCommitAt, 'yyyy.MM.dd') : '—'}</span>
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
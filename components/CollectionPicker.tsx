@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FolderHeart, X, Plus } from 'lucide-react';
+import { ThemeGroup } from '../types';
+import { translations } from '../utils/i18n';
+import { PINNED_COLLECTION_ID, ThemeCollection, createCollection, toggleInCollection } from '../services/collections';
+
+interface CollectionPickerProps {
+  group: ThemeGroup;
+  collections: ThemeCollection[];
+  setCollections: React.Dispatch<React.SetStateAction<ThemeCollection[]>>;
+  onClose: () => void;
+  t: typeof translations['en'];
+}
+
+/**
+ * Dialog for adding a theme to collections or taking it out of them
+ */
+export const CollectionPicker: React.FC<CollectionPickerProps> = ({ group, collections, setCollections, onClose, t }) => {
+  const [name, setName] = useState('');
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    setCollections(prev => [...prev, createCollection(name, [group.id])]);
+    setName('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="flex items-center gap-2 text-lg font-bold text-gray-900 dark:text-white">
+            <FolderHeart size={18} className="text-brand-600 dark:text-brand-400" />
+            {t.addToCollection}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4 truncate">{group.themes[0].title} · {group.id}</p>
+
+        <ul className="space-y-1 max-h-64 overflow-y-auto mb-4">
+          {collections.map(collection => (
+            <li key={collection.id}>
+              <label className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-sm cursor-pointer text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                <input
+                  type="checkbox"
+                  checked={collection.groupIds.includes(group.id)}
+                  onChange={() => setCollections(prev => toggleInCollection(prev, collection.id, group.id))}
+                  className="accent-brand-600"
+                />
+                <span className="truncate">{collection.id === PINNED_COLLECTION_ID ? t.pinnedCollection : collection.name}</span>
+                <span className="ml-auto text-xs tabular-nums text-gray-400">{collection.groupIds.length}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder={t.newCollectionPlaceholder}
+            className="flex-1 min-w-0 px-3 py-2 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 text-gray-900 dark:text-white"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim()}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 transition"
+          >
+            <Plus size={14} />
+            {t.createCollection}
+          </button>
+        </div>
+
+        <Link to="/collections" className="block mt-4 text-xs text-brand-600 dark:text-brand-400 hover:underline">
+          {t.manageCollections}
+        </Link>
+      </div>
+    </div>
+  );
+};
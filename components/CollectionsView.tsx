@@ -0,0 +1,285 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, CheckCircle2, Download, Upload, Link2, Trash2, X, Plus, Star } from 'lucide-react';
+import { ThemeGroup } from '../types';
+import { useThemeDataset } from '../hooks/useThemeDataset';
+import { Language, translations } from '../utils/i18n';
+import {
+  ThemeCollection, PINNED_COLLECTION_ID, readCollections, writeCollections, createCollection,
+  exportCollections, parseCollectionsFile, mergeCollections, collectionSharePath, readSharedCollection,
+} from '../services/collections';
+
+type Translations = typeof translations['en'];
+
+const Page: React.FC<{ title: string; actions?: React.ReactNode; children: React.ReactNode; t: Translations }> = ({ title, actions, children, t }) => (
+  <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+    <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 px-4 py-4 sm:px-6 lg:px-8">
+      <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
+        <Link to="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 transition">
+          <ArrowLeft size={20} />
+          <span className="font-medium hidden sm:inline">{t.back}</span>
+        </Link>
+        <div className="flex items-center gap-2">
+          {actions}
+          <h1 className="ml-2 text-lg font-bold text-gray-900 dark:text-white">{title}</h1>
+        </div>
+      </div>
+    </header>
+    <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">{children}</main>
+  </div>
+);
+
+const actionClass = 'flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 hover:border-brand-300 transition';
+
+/**
+ * Thumbnails of a collection's themes; ids missing from the dataset are listed by name
+ */
+const CollectionGrid: React.FC<{ groupIds: string[]; groups: ThemeGroup[]; onRemove?: (groupId: string) => void; t: Translations }> = ({ groupIds, groups, onRemove, t }) => {
+  const byId = new Map<string, ThemeGroup>(groups.map(g => [g.id, g]));
+  const missing = groupIds.filter(id => !byId.has(id));
+
+  if (groupIds.length === 0) {
+    return <p className="text-sm text-gray-400">{t.collectionEmpty}</p>;
+  }
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+        {groupIds.filter(id => byId.has(id)).map(id => {
+          const group = byId.get(id)!;
+          return (
+            <div key={id} className="relative group">
+              <Link to={`/theme/${encodeURIComponent(id)}`} className="block">
+                <img
+                  src={group.themes[0].thumbnail}
+                  alt={`${group.themes[0].title} preview`}
+                  loading="lazy"
+                  className="w-full aspect-[5/4] object-cover object-top rounded-xl border border-gray-200 dark:border-gray-700"
+                />
+                <span className="block mt-2 text-sm font-bold text-gray-900 dark:text-white group-hover:text-brand-600 dark:group-hover:text-brand-400 truncate">
+                  {group.themes[0].title}
+                </span>
+                <span className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <span className="truncate">{group.repoOwner}</span>
+                  <span className="flex items-center gap-0.5 flex-shrink-0">
+                    <Star size={10} className="text-amber-500 fill-amber-500" />
+                    {group.stats?.stars?.toLocaleString() ?? '—'}
+                  </span>
+                </span>
+              </Link>
+              {onRemove && (
+                <button
+                  onClick={() => onRemove(id)}
+                  className="absolute top-2 right-2 p-1 rounded-md bg-black/50 text-white opacity-0 group-hover:opacity-100 hover:bg-red-500 transition"
+                  title={t.removeFromCollection}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {missing.length > 0 && (
+        <p className="mt-3 text-xs text-amber-600 dark:text-amber-400">{t.notInData} {missing.join(', ')}</p>
+      )}
+    </>
+  );
+};
+
+/**
+ * The user's collections: rename, prune, share, and move them between browsers as JSON
+ */
+export const CollectionsView: React.FC<{ lang: Language }> = ({ lang }) => {
+  const t = translations[lang];
+  const { dataset, error } = useThemeDataset();
+  const [collections, setCollections] = useState<ThemeCollection[]>(readCollections);
+  const [newName, setNewName] = useState('');
+  const [notice, setNotice] = useState<{ ok: boolean; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    writeCollections(collections);
+  }, [collections]);
+
+  const update = (id: string, patch: Partial<ThemeCollection>) =>
+    setCollections(prev => prev.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    setCollections(prev => [...prev, createCollection(newName)]);
+    setNewName('');
+  };
+
+  const handleDelete = (collection: ThemeCollection) => {
+    if (!window.confirm(t.deleteCollectionConfirm.replace('{name}', collection.name))) return;
+    setCollections(prev => prev.filter(c => c.id !== collection.id));
+  };
+
+  const handleShare = async (collection: ThemeCollection) => {
+    const url = `${window.location.origin}${collectionSharePath(collection)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ ok: true, text: t.shareLinkCopied.replace('{name}', collection.name) });
+    } catch (e) {
+      window.prompt(t.copyThisLink, url);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCollections(collections)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'typora-theme-collections.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseCollectionsFile(await file.text());
+      setCollections(prev => mergeCollections(prev, imported));
+      setNotice({ ok: true, text: t.collectionsImported.replace('{count}', String(imported.length)) });
+    } catch (err: any) {
+      setNotice({ ok: false, text: err.message });
+    }
+  };
+
+  return (
+    <Page
+      t={t}
+      title={t.collections}
+      actions={
+        <>
+          <button onClick={() => fileInputRef.current?.click()} className={actionClass}>
+            <Upload size={14} /> {t.importCollections}
+          </button>
+          <button onClick={handleExport} className={actionClass}>
+            <Download size={14} /> {t.exportCollections}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </>
+      }
+    >
+      {notice && (
+        <p className={`flex items-center gap-2 mb-6 text-sm ${notice.ok ? 'text-green-600 dark:text-green-400' : 'text-red-500'}`}>
+          {notice.ok ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />} {notice.text}
+        </p>
+      )}
+
+      {error ? (
+        <p className="flex items-center gap-2 text-red-500"><AlertCircle size={18} /> {error}</p>
+      ) : !dataset ? (
+        <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-brand-500" /></div>
+      ) : (
+        <div className="space-y-10">
+          {collections.map(collection => (
+            <section key={collection.id}>
+              <div className="flex flex-wrap items-center gap-3 mb-3">
+                {collection.id === PINNED_COLLECTION_ID ? (
+                  <h2 className="text-base font-bold text-gray-900 dark:text-white">{t.pinnedCollection}</h2>
+                ) : (
+                  <input
+                    value={collection.name}
+                    onChange={(e) => update(collection.id, { name: e.target.value })}
+                    onBlur={(e) => !e.target.value.trim() && update(collection.id, { name: t.untitledCollection })}
+                    className="text-base font-bold bg-transparent border-b border-transparent hover:border-gray-300 focus:border-brand-500 focus:outline-none text-gray-900 dark:text-white"
+                    aria-label={t.collectionName}
+                  />
+                )}
+                <span className="text-xs text-gray-400">{t.collectionThemeCount.replace('{count}', String(collection.groupIds.length))}</span>
+                <div className="ml-auto flex items-center gap-2">
+                  <button
+                    onClick={() => handleShare(collection)}
+                    disabled={collection.groupIds.length === 0}
+                    className={`${actionClass} disabled:opacity-40`}
+                  >
+                    <Link2 size={14} /> {t.copyShareLink}
+                  </button>
+                  {collection.id !== PINNED_COLLECTION_ID && (
+                    <button onClick={() => handleDelete(collection)} className={`${actionClass} hover:!text-red-500`} title={t.deleteCollection}>
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <CollectionGrid
+                groupIds={collection.groupIds}
+                groups={dataset.groups}
+                onRemove={(groupId) => update(collection.id, { groupIds: collection.groupIds.filter(id => id !== groupId) })}
+                t={t}
+              />
+            </section>
+          ))}
+
+          <div className="flex gap-2 max-w-sm">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder={t.newCollectionPlaceholder}
+              className="flex-1 min-w-0 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 text-gray-900 dark:text-white"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="flex items-center gap-1 px-3 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 transition"
+            >
+              <Plus size={14} /> {t.createCollection}
+            </button>
+          </div>
+        </div>
+      )}
+    </Page>
+  );
+};
+
+/**
+ * Read-only view of a collection someone shared, which can be saved into one's own collections
+ */
+export const SharedCollectionView: React.FC<{ lang: Language }> = ({ lang }) => {
+  const t = translations[lang];
+  const [searchParams] = useSearchParams();
+  const shared = readSharedCollection(searchParams);
+  const name = shared.name || t.sharedCollection;
+  const { dataset, error } = useThemeDataset();
+  const [saved, setSaved] = useState(false);
+
+  const handleSave = () => {
+    writeCollections(mergeCollections(readCollections(), [createCollection(name, shared.groupIds)]));
+    setSaved(true);
+  };
+
+  return (
+    <Page t={t} title={t.sharedCollection}>
+      {error ? (
+        <p className="flex items-center gap-2 text-red-500"><AlertCircle size={18} /> {error}</p>
+      ) : !dataset ? (
+        <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-brand-500" /></div>
+      ) : (
+        <section>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <h2 className="text-base font-bold text-gray-900 dark:text-white">{name}</h2>
+            <span className="text-xs text-gray-400">{t.collectionThemeCount.replace('{count}', String(shared.groupIds.length))}</span>
+            <div className="ml-auto">
+              {saved ? (
+                <Link to="/collections" className="flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400 hover:underline">
+                  <CheckCircle2 size={14} /> {t.sharedCollectionSaved}
+                </Link>
+              ) : (
+                <button onClick={handleSave} disabled={shared.groupIds.length === 0} className={`${actionClass} disabled:opacity-40`}>
+                  <Plus size={14} /> {t.saveSharedCollection}
+                </button>
+              )}
+            </div>
+          </div>
+          <CollectionGrid groupIds={shared.groupIds} groups={dataset.groups} t={t} />
+        </section>
+      )}
+    </Page>
+  );
+};
@@ -0,0 +1,197 @@
+import React, { useCallback, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, Star } from 'lucide-react';
+import { ThemeGroup } from '../types';
+import { useThemeDataset } from '../hooks/useThemeDataset';
+import { ThemePreviewFrame, useThemeStylesheet } from './ThemePreviewFrame';
+import { SAMPLE_DOCUMENT } from '../utils/sampleDocument';
+import { formatDateCustom } from '@caolib/time-util';
+import { groupRepoRef, forgeLabel, hasRepository } from '../utils/repoRef';
+import { Language, translations } from '../utils/i18n';
+
+export const MAX_COMPARE = 4;
+
+interface ComparePreviewProps {
+  group: ThemeGroup;
+  frameRef: (frame: HTMLIFrameElement | null) => void;
+  onScroll: () => void;
+}
+
+/**
+ * One theme's rendering of the sample document
+ */
+const ComparePreview: React.FC<ComparePreviewProps> = ({ group, frameRef, onScroll }) => {
+  const canPreview = hasRepository(groupRepoRef(group));
+  const { stylesheet, loading, error } = useThemeStylesheet(canPreview ? group : null, group.themes[0]);
+
+  if (!canPreview) {
+    return <div className="flex items-center justify-center h-[70vh] text-gray-400">—</div>;
+  }
+  if (loading) {
+    return <div className="flex items-center justify-center h-[70vh]"><Loader2 className="w-6 h-6 animate-spin text-brand-500" /></div>;
+  }
+  if (error) {
+    return (
+      <div className="flex items-center justify-center gap-2 h-[70vh] px-4 text-center text-xs text-gray-500 dark:text-gray-400">
+        <AlertCircle size={14} className="text-red-500 flex-shrink-0" />
+        {error}
+      </div>
+    );
+  }
+  return (
+    <ThemePreviewFrame
+      ref={frameRef}
+      markdown={SAMPLE_DOCUMENT}
+      stylesheetUrl={stylesheet?.url}
+      onScroll={onScroll}
+      className="h-[70vh] rounded-xl border border-gray-100 dark:border-gray-700"
+    />
+  );
+};
+
+/**
+ * Side-by-side comparison of two to four theme groups, selected through the gallery's compare tray
+ */
+export const CompareView: React.FC<{ lang: Language }> = ({ lang }) => {
+  const t = translations[lang];
+  const [searchParams] = useSearchParams();
+  const ids = (searchParams.get('ids') || '').split(',').filter(Boolean).slice(0, MAX_COMPARE);
+
+  const { dataset, error } = useThemeDataset();
+
+  const groups = (dataset?.groups || []).filter(g => ids.includes(g.id))
+    .sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+  const missing = dataset ? ids.filter(id => !groups.some(g => g.id === id)) : [];
+
+  // Scrolling one preview scrolls the others to the same relative position.
+  // Positions set here are remembered so the scroll events they cause aren't echoed back.
+  const frames = useRef<(HTMLIFrameElement | null)[]>([]);
+  const syncedTops = useRef(new Map<number, number>());
+
+  const handleScroll = useCallback((index: number) => {
+    const source = frames.current[index]?.contentWindow?.document.scrollingElement;
+    if (!source) return;
+
+    const expected = syncedTops.current.get(index);
+    syncedTops.current.delete(index);
+    if (expected !== undefined && Math.abs(expected - source.scrollTop) <= 1) return;
+
+    const ratio = source.scrollTop / Math.max(1, source.scrollHeight - source.clientHeight);
+    frames.current.forEach((frame, i) => {
+      const target = frame?.contentWindow?.document.scrollingElement;
+      if (i === index || !target) return;
+      const top = Math.round(ratio * (target.scrollHeight - target.clientHeight));
+      if (Math.abs(target.scrollTop - top) <= 1) return;
+      syncedTops.current.set(i, top);
+      target.scrollTop = top;
+    });
+  }, []);
+
+  const rows: { label: string; value: (group: ThemeGroup) => React.ReactNode }[] = [
+    {
+      label: t.compareStars,
+      value: g => (
+        <span className="flex items-center gap-1">
+          <Star size={14} className="text-amber-500 fill-amber-500" />
+          {g.stats?.stars?.toLocaleString() ?? '—'}
+        </span>
+      ),
+    },
+    { label: t.compareLicense, value: g => g.stats?.license || '—' },
+    { label: t.compareLastCommit, value: g => (g.stats?.lastCommitAt ? formatDateCustom(g.stats.lastCommitAt, 'yyyy.MM.dd') : '—') },
+    { label: t.compareOpenIssues, value: g => g.stats?.openIssues?.toLocaleString() ?? '—' },
+    { label: t.compareVariants, value: g => g.themes.length },
+    {
+      label: t.compareRepository,
+      value: g => (
+        hasRepository(groupRepoRef(g)) ? (
+          <a href={g.themes[0].homepage} target="_blank" rel="noreferrer" className="text-brand-600 dark:text-brand-400 hover:underline">
+            {forgeLabel(groupRepoRef(g))}
+          </a>
+        ) : '—'
+      ),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 px-4 py-4 sm:px-6 lg:px-8">
+        <div className="max-w-[125rem] mx-auto flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 transition">
+            <ArrowLeft size={20} />
+            <span className="font-medium hidden sm:inline">{t.back}</span>
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900 dark:text-white">{t.compareTitle}</h1>
+        </div>
+      </header>
+
+      <main className="max-w-[125rem] mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error ? (
+          <p className="flex items-center gap-2 text-red-500"><AlertCircle size={18} /> {error}</p>
+        ) : !dataset ? (
+          <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-brand-500" /></div>
+        ) : groups.length < 2 ? (
+          <p className="flex items-center gap-2 text-gray-500 dark:text-gray-400">
+            <AlertCircle size={18} /> {t.compareSelect}
+          </p>
+        ) : (
+          <>
+            {missing.length > 0 && (
+              <p className="mb-4 text-sm text-amber-600 dark:text-amber-400">{t.compareNotFound} {missing.join(', ')}</p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full table-fixed text-sm" style={{ minWidth: `${groups.length * 20}rem` }}>
+                <colgroup>
+                  <col className="w-28" />
+                  {groups.map(g => <col key={g.id} />)}
+                </colgroup>
+                <thead>
+                  <tr>
+                    <th />
+                    {groups.map(g => (
+                      <th key={g.id} className="p-2 text-left align-top font-normal">
+                        <Link to={`/theme/${encodeURIComponent(g.id)}`} className="block group">
+                          <img
+                            src={g.themes[0].thumbnail}
+                            alt={`${g.themes[0].title} preview`}
+                            className="w-full aspect-[5/4] object-cover object-top rounded-xl border border-gray-200 dark:border-gray-700"
+                          />
+                          <span className="block mt-2 font-bold text-gray-900 dark:text-white group-hover:text-brand-600 dark:group-hover:text-brand-400 truncate">
+                            {g.themes[0].title}
+                          </span>
+                          <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{g.repoOwner}</span>
+                        </Link>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map(row => (
+                    <tr key={row.label}>
+                      <th className="p-2 text-left text-xs font-semibold text-gray-500 dark:text-gray-400">{row.label}</th>
+                      {groups.map(g => (
+                        <td key={g.id} className="p-2 text-gray-800 dark:text-gray-200">{row.value(g)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <th className="p-2 text-left align-top text-xs font-semibold text-gray-500 dark:text-gray-400">{t.comparePreview}</th>
+                    {groups.map((g, i) => (
+                      <td key={g.id} className="p-2 align-top">
+                        <ComparePreview
+                          group={g}
+                          frameRef={frame => { frames.current[i] = frame; }}
+                          onScroll={() => handleScroll(i)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
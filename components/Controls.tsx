@@ -78,6 +78,8 @@ export function Controls({
                 <option value={SortOption.STARS}>{t.sortStars}</option>
                 <option value={SortOption.UPDATED}>{t.sortUpdated}</option>
                 <option value={SortOption.NAME}>{t.sortName}</option>
+                <option value={SortOption.TRENDING}>{t.sortTrending}</option>
+                <option value={SortOption.RELEVANCE}>{t.sortRelevance}</option>
               </select>
               <div className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none">
                 <ChevronDown size={14} />
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { DataIssue, DataIssueKind } from '../types';
+import { useThemeDataset } from '../hooks/useThemeDataset';
+
+const POST_BASE_URL = 'https://github.com/typora/theme.typora.io/blob/gh-pages/_posts/theme/';
+
+const ACTION_STYLES: Record<DataIssue['action'], string> = {
+  dropped: 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400',
+  repaired: 'bg-amber-50 text-amber-600 dark:bg-amber-900/20 dark:text-amber-400',
+  kept: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+/**
+ * Hidden data-quality report listing everything validation dropped or repaired
+ */
+export const Diagnostics: React.FC = () => {
+  const { dataset, error } = useThemeDataset();
+
+  const issuesByKind = useMemo(() => {
+    const result = new Map<DataIssueKind, DataIssue[]>();
+    (dataset?.issues || []).forEach(issue => {
+      result.set(issue.kind, [...(result.get(issue.kind) || []), issue]);
+    });
+    return [...result.entries()].sort((a, b) => b[1].length - a[1].length);
+  }, [dataset]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 px-4 py-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 transition">
+            <ArrowLeft size={20} />
+            <span className="font-medium hidden sm:inline">Back</span>
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900 dark:text-white">Data diagnostics</h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error ? (
+          <p className="flex items-center gap-2 text-red-500"><AlertCircle size={18} /> {error}</p>
+        ) : !dataset ? (
+          <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-brand-500" /></div>
+        ) : issuesByKind.length === 0 ? (
+          <p className="flex items-center gap-2 text-green-600 dark:text-green-400">
+            <CheckCircle2 size={18} /> No problems found in {dataset.groups.length} groups.
+          </p>
+        ) : (
+          <div className="space-y-8">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {dataset.issues!.length} problems across {dataset.groups.length} loaded groups.
+            </p>
+            {issuesByKind.map(([kind, issues]) => (
+              <section key={kind}>
+                <h2 className="text-sm font-bold text-gray-900 dark:text-white mb-2">
+                  {kind} <span className="text-gray-400 font-normal">({issues.length})</span>
+                </h2>
+                <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+                  {issues.map((issue, idx) => (
+                    <div key={idx} className="flex flex-wrap items-center gap-3 px-4 py-2 text-xs">
+                      <span className={`px-1.5 py-0.5 rounded font-semibold ${ACTION_STYLES[issue.action]}`}>{issue.action}</span>
+                      <span className="font-mono text-gray-700 dark:text-gray-200">{issue.groupId || '—'}</span>
+                      {issue.themeId && (
+                        <a
+                          href={`${POST_BASE_URL}${issue.themeId}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="font-mono text-brand-600 dark:text-brand-400 hover:underline"
+                        >
+                          {issue.themeId}
+                        </a>
+                      )}
+                      <span className="text-gray-500 dark:text-gray-400 flex-1">{issue.message}</span>
+                      {issue.source && <span className="text-gray-400">{issue.source}</span>}
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import { translations } from '../utils/i18n';
+
+interface DocumentPanelProps {
+  value: string;
+  onChange: (value: string) => void;
+  notice?: string; // Shown under the editor, e.g. when the document can't be saved
+  className?: string;
+  t: typeof translations['en'];
+}
+
+const MARKDOWN_FILE = /\.(md|markdown|mdown|txt)$/i;
+
+/**
+ * Editor for the user's own preview document: paste, type, drop or open a Markdown file
+ */
+export const DocumentPanel: React.FC<DocumentPanelProps> = ({ value, onChange, notice, className = '', t }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readFile = async (file?: File) => {
+    if (!file) return;
+    if (!MARKDOWN_FILE.test(file.name)) {
+      setError(t.notMarkdownFile.replace('{name}', file.name));
+      return;
+    }
+    setError(null);
+    onChange(await file.text());
+  };
+
+  return (
+    <div
+      className={`flex flex-col bg-white dark:bg-gray-800 rounded-2xl border shadow-sm overflow-hidden transition-colors ${dragging ? 'border-brand-500 ring-2 ring-brand-500/20' : 'border-gray-100 dark:border-gray-700'} ${className}`}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        readFile(e.dataTransfer.files[0]);
+      }}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-gray-100 dark:border-gray-700 text-xs">
+        <span className="font-semibold text-gray-700 dark:text-gray-200">{t.myDocument}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 rounded-md text-gray-500 dark:text-gray-400 hover:text-brand-600 dark:hover:text-brand-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <Upload size={12} />
+            {t.openMarkdownFile}
+          </button>
+          {value && (
+            <button
+              onClick={() => onChange('')}
+              className="flex items-center gap-1 px-2 py-1 rounded-md text-gray-500 dark:text-gray-400 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <Trash2 size={12} />
+              {t.clearDocument}
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".md,.markdown,.mdown,.txt,text/markdown"
+          className="hidden"
+          onChange={(e) => {
+            readFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={t.documentPlaceholder}
+        spellCheck={false}
+        className="flex-grow w-full p-3 resize-none bg-transparent font-mono text-xs text-gray-800 dark:text-gray-200 placeholder-gray-400 focus:outline-none"
+      />
+
+      {notice && <p className="px-3 py-2 text-xs text-amber-600 dark:text-amber-400 border-t border-gray-100 dark:border-gray-700">{notice}</p>}
+      {error && <p className="px-3 py-2 text-xs text-red-500 border-t border-gray-100 dark:border-gray-700">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { ThemeGroup } from '../types';
+import { translations } from '../utils/i18n';
+import { COLOR_FAMILIES, COLOR_FAMILY_SWATCHES } from '../utils/cssPalette';
+import {
+  FacetFilters, ListFacet, StyleFilter, EMPTY_FACETS, UPDATED_WITHIN_OPTIONS,
+  countActiveFacets, countFacetValues, matchesFacets,
+} from '../utils/facets';
+
+interface FacetSidebarProps {
+  groups: ThemeGroup[]; // Groups left after search and style filters, before facets
+  facets: FacetFilters;
+  setFacets: React.Dispatch<React.SetStateAction<FacetFilters>>;
+  styleFilter: StyleFilter;
+  setStyleFilter: React.Dispatch<React.SetStateAction<StyleFilter>>;
+  hasPalettes: boolean; // Style filters are disabled when the data has no palettes
+  onClose: () => void;
+  t: typeof translations['en'];
+}
+
+const COLLAPSED_VALUES = 8; // Values shown per list facet before "show more"
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+    <h3 className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+const Count: React.FC<{ value: number }> = ({ value }) => (
+  <span className="ml-auto pl-2 text-[10px] tabular-nums text-gray-400">{value}</span>
+);
+
+export const FacetSidebar: React.FC<FacetSidebarProps> = ({ groups, facets, setFacets, styleFilter, setStyleFilter, hasPalettes, onClose, t }) => {
+  const [expanded, setExpanded] = useState<ListFacet[]>([]);
+
+  const listCounts = useMemo(() => ({
+    categories: countFacetValues(groups, facets, 'categories'),
+    licenses: countFacetValues(groups, facets, 'licenses'),
+    authors: countFacetValues(groups, facets, 'authors'),
+  }), [groups, facets]);
+
+  // How many groups a toggle or option would leave, given everything else
+  const countWith = (patch: Partial<FacetFilters>) => groups.filter(g => matchesFacets(g, { ...facets, ...patch })).length;
+
+  const toggleValue = (facet: ListFacet, value: string) => {
+    setFacets(prev => ({
+      ...prev,
+      [facet]: prev[facet].includes(value) ? prev[facet].filter(v => v !== value) : [...prev[facet], value],
+    }));
+  };
+
+  const parseStars = (value: string) => (value === '' ? undefined : Math.max(0, Number(value) || 0));
+
+  const activeCount = countActiveFacets(facets) + (hasPalettes ? Object.values(styleFilter).filter(Boolean).length : 0);
+
+  const renderList = (facet: ListFacet, title: string) => {
+    const values = listCounts[facet];
+    if (values.length === 0) return null;
+    const isExpanded = expanded.includes(facet);
+    return (
+      <Section title={title}>
+        <ul className="space-y-0.5">
+          {(isExpanded ? values : values.slice(0, COLLAPSED_VALUES)).map(([value, count]) => (
+            <li key={value}>
+              <label className={`flex items-center gap-2 px-1 py-0.5 rounded text-xs cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${count === 0 ? 'opacity-50' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={facets[facet].includes(value)}
+                  onChange={() => toggleValue(facet, value)}
+                  className="accent-brand-600"
+                />
+                <span className={`truncate text-gray-700 dark:text-gray-200 ${facet === 'categories' ? 'capitalize' : ''}`}>{value || t.unknown}</span>
+                <Count value={count} />
+              </label>
+            </li>
+          ))}
+        </ul>
+        {values.length > COLLAPSED_VALUES && (
+          <button
+            onClick={() => setExpanded(prev => isExpanded ? prev.filter(f => f !== facet) : [...prev, facet])}
+            className="mt-1 px-1 text-[10px] text-brand-600 dark:text-brand-400 hover:underline"
+          >
+            {isExpanded ? t.showLess : `${t.showMore} (${values.length - COLLAPSED_VALUES})`}
+          </button>
+        )}
+      </Section>
+    );
+  };
+
+  return (
+    <aside className="bg-white dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 shadow-sm px-4 py-2">
+      <div className="flex items-center justify-between py-2">
+        <span className="text-sm font-bold text-gray-900 dark:text-white">{t.filters}</span>
+        <div className="flex items-center gap-2">
+          {activeCount > 0 && (
+            <button
+              onClick={() => { setFacets(EMPTY_FACETS); setStyleFilter({}); }}
+              className="text-[10px] text-gray-500 hover:text-red-500 transition-colors"
+            >
+              {t.clearFilters}
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <Section title={t.variantsAndStatus}>
+        <label className="flex items-center gap-2 px-1 py-0.5 text-xs cursor-pointer text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={facets.multiVariantOnly}
+            onChange={(e) => setFacets(prev => ({ ...prev, multiVariantOnly: e.target.checked }))}
+            className="accent-brand-600"
+          />
+          {t.multiVariantOnly}
+          <Count value={countWith({ multiVariantOnly: true })} />
+        </label>
+        <label className="flex items-center gap-2 px-1 py-0.5 text-xs cursor-pointer text-gray-700 dark:text-gray-200">
+          <input
+            type="checkbox"
+            checked={facets.hideNotFound}
+            onChange={(e) => setFacets(prev => ({ ...prev, hideNotFound: e.target.checked }))}
+            className="accent-brand-600"
+          />
+          {t.hideNotFound}
+          <Count value={countWith({ hideNotFound: true })} />
+        </label>
+      </Section>
+
+      <Section title={t.starRange}>
+        <div className="flex items-center gap-2">
+          {(['minStars', 'maxStars'] as const).map((key, i) => (
+            <React.Fragment key={key}>
+              {i === 1 && <span className="text-gray-400 text-xs">–</span>}
+              <input
+                type="number"
+                min={0}
+                placeholder={i === 0 ? '0' : '∞'}
+                value={facets[key] ?? ''}
+                onChange={(e) => setFacets(prev => ({ ...prev, [key]: parseStars(e.target.value) }))}
+                className="w-full px-2 py-1 text-xs bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 text-gray-900 dark:text-white"
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      </Section>
+
+      <Section title={t.updatedWithin}>
+        <div className="grid grid-cols-2 gap-1">
+          {[undefined, ...UPDATED_WITHIN_OPTIONS].map(months => (
+            <button
+              key={months ?? 'any'}
+              onClick={() => setFacets(prev => ({ ...prev, updatedWithinMonths: months }))}
+              className={`flex items-center px-2 py-1 rounded text-[10px] transition-colors ${facets.updatedWithinMonths === months ? 'bg-brand-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:text-brand-600'}`}
+            >
+              {months ? `${months} ${t.months}` : t.anyOption}
+              <span className="ml-auto pl-1 opacity-70 tabular-nums">{countWith({ updatedWithinMonths: months })}</span>
+            </button>
+          ))}
+        </div>
+      </Section>
+
+      {renderList('categories', t.facetCategory)}
+      {renderList('licenses', t.facetLicense)}
+      {renderList('authors', t.facetAuthor)}
+
+      {!hasPalettes && (
+        <p className="pt-3 text-[10px] leading-relaxed text-amber-600 dark:text-amber-400">{t.styleFiltersUnavailable}</p>
+      )}
+      <fieldset disabled={!hasPalettes} className={hasPalettes ? '' : 'opacity-50 pointer-events-none'}>
+        {([
+          ['appearance', t.appearance, [['light', t.appearanceLight], ['dark', t.appearanceDark]]],
+          ['font', t.fontType, [['serif', t.fontSerif], ['sans-serif', t.fontSans], ['monospace', t.fontMono]]],
+        ] as const).map(([key, label, options]) => (
+          <Section key={key} title={label}>
+            <div className="flex gap-1">
+              {[[undefined, t.anyOption] as const, ...options].map(([value, optionLabel]) => (
+                <button
+                  key={optionLabel}
+                  onClick={() => setStyleFilter(prev => ({ ...prev, [key]: value }))}
+                  className={`flex-1 py-1 rounded text-[10px] transition-colors ${styleFilter[key] === value ? 'bg-brand-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:text-brand-600'}`}
+                >
+                  {optionLabel}
+                </button>
+              ))}
+            </div>
+          </Section>
+        ))}
+
+        <Section title={t.accentColor}>
+          <div className="flex flex-wrap gap-1.5">
+            {COLOR_FAMILIES.map(family => (
+              <button
+                key={family}
+                onClick={() => setStyleFilter(prev => ({ ...prev, color: prev.color === family ? undefined : family }))}
+                className={`w-5 h-5 rounded-full transition-all ${styleFilter.color === family ? 'ring-2 ring-offset-2 ring-brand-500 dark:ring-offset-gray-800' : 'hover:scale-110'}`}
+                style={{ backgroundColor: COLOR_FAMILY_SWATCHES[family] }}
+                aria-label={family}
+                title={family}
+              />
+            ))}
+          </div>
+        </Section>
+      </fieldset>
+    </aside>
+  );
+};
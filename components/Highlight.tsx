@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface HighlightProps {
+  text: string;
+  ranges?: [number, number][]; // [start, end) character ranges to mark
+}
+
+/**
+ * Renders text with search matches marked
+ */
+export const Highlight: React.FC<HighlightProps> = ({ text, ranges }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  // Merge overlapping ranges so marks never nest
+  const merged: [number, number][] = [];
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-brand-400/40 text-inherit rounded-sm">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
@@ -0,0 +1,175 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Search, X, AlertTriangle } from 'lucide-react';
+import { translations } from '../utils/i18n';
+import { QUALIFIERS, QUALIFIER_OPTIONS, QueryError, tokenizeQuery } from '../utils/searchQuery';
+
+export interface SearchVocabulary {
+  authors: string[];
+  licenses: string[];
+  categories: string[];
+  tags: string[];
+}
+
+interface SearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  errors: QueryError[];
+  vocabulary: SearchVocabulary;
+  t: typeof translations['en'];
+}
+
+interface Suggestion {
+  label: string;
+  insert: string;
+  hint?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Search input that understands the query language: suggests qualifiers and
+ * known values for the word under the caret, and explains invalid qualifiers
+ */
+export const SearchBox: React.FC<SearchBoxProps> = ({ value, onChange, errors, vocabulary, t }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [focused, setFocused] = useState(false);
+  const [caret, setCaret] = useState(value.length);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const token = tokenizeQuery(value).find(tk => caret >= tk.start && caret <= tk.end);
+
+  const suggestions = useMemo((): Suggestion[] => {
+    const text = token?.text || '';
+    const qualified = text.match(/^([a-zA-Z]+):(.*)$/);
+
+    if (!qualified) {
+      const prefix = text.toLowerCase();
+      if (!prefix && value.trim()) return [];
+      return QUALIFIERS
+        .filter(q => q.startsWith(prefix) && q !== prefix)
+        .map(q => ({ label: `${q}:`, insert: `${q}:`, hint: t.queryQualifiers[q] }));
+    }
+
+    const key = qualified[1].toLowerCase();
+    const partial = qualified[2].replace(/^"|"$/g, '').toLowerCase();
+    const values = QUALIFIER_OPTIONS[key as keyof typeof QUALIFIER_OPTIONS]
+      || { author: vocabulary.authors, license: vocabulary.licenses, category: vocabulary.categories, tag: vocabulary.tags }[key]
+      || [];
+    return values
+      .filter(v => v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(partial)) - Number(!b.toLowerCase().startsWith(partial)))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(v => ({ label: `${key}:${quote(v)}`, insert: `${key}:${quote(v)} ` }));
+  }, [token?.text, value, vocabulary, t]);
+
+  const errorMessage = (error: QueryError): string => {
+    switch (error.kind) {
+      case 'unknown-qualifier':
+        return error.suggestion ? `${t.queryUnknown} ${t.queryDidYouMean} "${error.suggestion}:"?` : t.queryUnknown;
+      case 'empty-value': return t.queryEmpty;
+      case 'invalid-number': return t.queryNumber;
+      case 'invalid-date': return t.queryDate;
+      case 'invalid-option': return `${t.queryOption} ${error.options?.join(', ')}`;
+      case 'unclosed-quote': return t.queryQuote;
+      case 'needs-palette': return t.queryNeedsPalette;
+    }
+  };
+
+  const syncCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const accept = (suggestion: Suggestion) => {
+    const start = token ? token.start : caret;
+    const end = token ? token.end : caret;
+    const next = value.slice(0, start) + suggestion.insert + value.slice(end);
+    const nextCaret = start + suggestion.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const open = focused && !dismissed && (suggestions.length > 0 || errors.length > 0);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) {
+      if (e.key === 'Escape') setDismissed(true);
+      return;
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(i => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setDismissed(true);
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 group-focus-within:text-brand-500 transition-colors pointer-events-none">
+        <Search size={18} />
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        placeholder={t.searchPlaceholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setActiveIndex(0);
+          setDismissed(false);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={syncCaret}
+        onClick={syncCaret}
+        onFocus={() => { setFocused(true); syncCaret(); }}
+        onBlur={() => setFocused(false)}
+        spellCheck={false}
+        autoComplete="off"
+        className={`w-full pl-9 pr-9 h-10 bg-gray-100 dark:bg-gray-900/50 border rounded-full focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:bg-white dark:focus:bg-gray-800 transition-all text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 ${errors.length > 0 ? 'border-amber-400 dark:border-amber-500' : 'border-transparent focus:border-brand-500 dark:focus:border-brand-500'}`}
+      />
+      {value && (
+        <button
+          onClick={() => onChange('')}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+        >
+          <X size={14} />
+        </button>
+      )}
+
+      {open && (
+        // Keep focus in the input while clicking suggestions
+        <div
+          className="absolute left-0 right-0 mt-2 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50 overflow-hidden"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {errors.map((error, idx) => (
+            <div key={idx} className="flex items-start gap-2 px-4 py-1.5 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+              <span><code className="font-mono">{error.token}</code> {errorMessage(error)}</span>
+            </div>
+          ))}
+          {errors.length > 0 && suggestions.length > 0 && <div className="my-1 border-t border-gray-100 dark:border-gray-700" />}
+          {suggestions.map((suggestion, idx) => (
+            <button
+              key={suggestion.label}
+              onClick={() => accept(suggestion)}
+              onMouseEnter={() => setActiveIndex(idx)}
+              className={`w-full flex items-center justify-between gap-4 px-4 py-1.5 text-left text-xs transition-colors ${idx === activeIndex ? 'bg-gray-50 dark:bg-gray-700 text-brand-600 dark:text-brand-400' : 'text-gray-700 dark:text-gray-200'}`}
+            >
+              <span className="font-mono truncate">{suggestion.label}</span>
+              {suggestion.hint && <span className="text-gray-400 truncate">{suggestion.hint}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
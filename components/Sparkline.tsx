@@ -0,0 +1,42 @@
+import React from 'react';
+import { StarSnapshot } from '../services/starHistory';
+
+interface SparklineProps {
+  snapshots: StarSnapshot[];
+  width?: number;
+  height?: number;
+  className?: string;
+  title?: string; // Tooltip and accessible name
+}
+
+export const Sparkline: React.FC<SparklineProps> = ({ snapshots, width = 120, height = 28, className = '', title }) => {
+  if (snapshots.length < 2) return null;
+
+  const minT = snapshots[0].t;
+  const spanT = snapshots[snapshots.length - 1].t - minT || 1;
+  const stars = snapshots.map(s => s.stars);
+  const minS = Math.min(...stars);
+  const spanS = Math.max(...stars) - minS || 1;
+  const pad = 2;
+
+  const coords = snapshots.map(s => [
+    pad + ((s.t - minT) / spanT) * (width - pad * 2),
+    height - pad - ((s.stars - minS) / spanS) * (height - pad * 2),
+  ]);
+  const [lastX, lastY] = coords[coords.length - 1];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className}>
+      {title && <title>{title}</title>}
+      <polyline
+        points={coords.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={lastX} cy={lastY} r={2} fill="currentColor" />
+    </svg>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2, AlertCircle, Star, Layers, FolderGit2 } from 'lucide-react';
+import { useThemeDataset } from '../hooks/useThemeDataset';
+import { StatBar, computeStats } from '../utils/stats';
+import { Language, translations } from '../utils/i18n';
+
+type Translations = typeof translations['en'];
+
+const barLabel = (bar: StatBar, t: Translations): string =>
+  bar.labelKey
+    ? Object.entries(bar.labelParams || {}).reduce((text, [name, value]) => text.replace(`{${name}}`, value), t[bar.labelKey])
+    : bar.label;
+
+/**
+ * Horizontal bars scaled to the largest value; bars with a gallery view are links to it
+ */
+const BarChart: React.FC<{ title: string; note?: string; bars: StatBar[]; showShare?: boolean; t: Translations }> = ({ title, note, bars, showShare, t }) => {
+  const max = Math.max(1, ...bars.map(bar => bar.value));
+  const total = bars.reduce((sum, bar) => sum + bar.value, 0);
+
+  return (
+    <section className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-4">
+      <h2 className="text-sm font-bold text-gray-900 dark:text-white">{title}</h2>
+      {note && <p className="text-xs text-gray-400 mt-0.5">{note}</p>}
+      {bars.length === 0 ? (
+        <p className="mt-3 text-xs text-gray-400">{t.statsNoData}</p>
+      ) : (
+        <ul className="mt-3 space-y-1">
+          {bars.map(bar => {
+            const label = barLabel(bar, t);
+            const row = (
+              <>
+                <span className="w-28 flex-shrink-0 truncate text-gray-600 dark:text-gray-300" title={label}>{label}</span>
+                <span className="flex-1 h-4 bg-gray-100 dark:bg-gray-900 rounded">
+                  <span
+                    className={`block h-full rounded transition-colors ${bar.path ? 'bg-brand-500 group-hover:bg-brand-600' : 'bg-gray-300 dark:bg-gray-600'}`}
+                    style={{ width: `${(bar.value / max) * 100}%` }}
+                  />
+                </span>
+                <span className="w-20 flex-shrink-0 text-right tabular-nums text-gray-500 dark:text-gray-400">
+                  {bar.value.toLocaleString()}
+                  {showShare && total > 0 && ` (${Math.round((bar.value / total) * 100)}%)`}
+                </span>
+              </>
+            );
+            return (
+              <li key={bar.labelKey || bar.label}>
+                {bar.path ? (
+                  <Link to={bar.path} className="group flex items-center gap-2 text-xs rounded hover:bg-gray-50 dark:hover:bg-gray-700/50" title={t.statsShowInGallery}>
+                    {row}
+                  </Link>
+                ) : (
+                  <div className="flex items-center gap-2 text-xs">{row}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+/**
+ * Overview of the theme ecosystem; every bar opens the gallery filtered to the themes it counts
+ */
+export const StatsView: React.FC<{ lang: Language }> = ({ lang }) => {
+  const t = translations[lang];
+  const { dataset, error } = useThemeDataset();
+
+  const stats = useMemo(() => (dataset ? computeStats(dataset.groups) : null), [dataset]);
+
+  const summary = stats ? [
+    { icon: <FolderGit2 size={16} className="text-brand-500" />, label: t.statsRepositories, value: stats.repoCount.toLocaleString() },
+    { icon: <Layers size={16} className="text-brand-500" />, label: t.statsVariants, value: stats.variantCount.toLocaleString() },
+    { icon: <Star size={16} className="text-amber-500 fill-amber-500" />, label: t.statsTotalStars, value: stats.totalStars.toLocaleString() },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 px-4 py-4 sm:px-6 lg:px-8">
+        <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
+          <Link to="/" className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 transition">
+            <ArrowLeft size={20} />
+            <span className="font-medium hidden sm:inline">{t.back}</span>
+          </Link>
+          <h1 className="text-lg font-bold text-gray-900 dark:text-white">{t.stats}</h1>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error ? (
+          <p className="flex items-center gap-2 text-red-500"><AlertCircle size={18} /> {error}</p>
+        ) : !stats ? (
+          <div className="flex justify-center py-20"><Loader2 className="w-8 h-8 animate-spin text-brand-500" /></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+              {summary.map(item => (
+                <div key={item.label} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 px-4 py-3">
+                  <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">{item.icon} {item.label}</div>
+                  <div className="mt-1 text-sm font-semibold text-gray-900 dark:text-white">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <BarChart title={t.statsPublished} note={t.statsPublishedNote} bars={stats.publishedPerYear} t={t} />
+              <BarChart title={t.statsActivity} note={t.statsActivityNote} bars={stats.activity} showShare t={t} />
+              <BarChart title={t.statsStars} note={t.statsStarsNote} bars={stats.stars} t={t} />
+              <BarChart title={t.statsLicenses} bars={stats.licenses} showShare t={t} />
+              <BarChart title={t.statsAuthors} note={t.statsAuthorsNote} bars={stats.authors} t={t} />
+              <BarChart title={t.statsCategories} note={t.statsCategoriesNote} bars={stats.categories} t={t} />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -1,33 +1,70 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { Star, Calendar, Download, Pin, ExternalLink, Github, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Star, Calendar, Download, Pin, ExternalLink, Github, Gitlab, GitBranch, ChevronLeft, ChevronRight, Loader2, GitCompare, Package, FolderHeart } from 'lucide-react';
 import { ThemeGroup } from '../types';
 import { translations } from '../utils/i18n';
 import { formatDate, formatDateCustom } from '@caolib/time-util';
+import { groupRepoRef, forgeLabel, hasRepository } from '../utils/repoRef';
+import { canBuildInstallPackage, downloadInstallPackage } from '../services/installPackage';
+import { Highlight } from './Highlight';
+import { authorPath } from './AuthorView';
 
 interface ThemeCardProps {
   group: ThemeGroup;
   isPinned: boolean;
   onTogglePin: () => void;
+  isCollected?: boolean; // In at least one collection besides "Pinned"
+  onOpenCollections: () => void;
+  isCompared: boolean;
+  onToggleCompare: () => void;
+  compareFull?: boolean; // No room left in the comparison tray
+  showSource?: boolean; // Label the data source, useful when several are merged
+  preferDark?: boolean; // Start on a dark variant when the group has one
+  restoredThemeId?: string; // Variant that was showing when the user left the gallery
+  onActiveThemeChange?: (themeId: string) => void;
   t: typeof translations['en'];
 }
 
-export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onTogglePin, t }) => {
+export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onTogglePin, isCollected, onOpenCollections, isCompared, onToggleCompare, compareFull, showSource, preferDark, restoredThemeId, onActiveThemeChange, t }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const { themes, stats, loadingStats, matchedThemeId } = group;
+  const repoRef = groupRepoRef(group);
+  const ForgeIcon = repoRef.forge === 'github' ? Github : repoRef.forge === 'gitlab' ? Gitlab : hasRepository(repoRef) ? GitBranch : null;
 
-  // Initialize with matched theme if available, otherwise first theme
+  const defaultThemeId = () => {
+    const darkTheme = preferDark ? themes.find(t => t.palette?.appearance === 'dark') : undefined;
+    return (darkTheme || themes[0]).id;
+  };
+
+  // Initialize with the restored theme, then the matched one, otherwise the default one
   const [activeThemeId, setActiveThemeId] = useState(() => {
+    if (restoredThemeId && themes.some(t => t.id === restoredThemeId)) {
+      return restoredThemeId;
+    }
     if (matchedThemeId && themes.some(t => t.id === matchedThemeId)) {
       return matchedThemeId;
     }
-    return themes[0].id;
+    return defaultThemeId();
   });
 
   const activeTheme = themes.find(t => t.id === activeThemeId) || themes[0];
   const activeIndex = themes.findIndex(t => t.id === activeThemeId);
 
   const [paused, setPaused] = useState(false);
+  const [packaging, setPackaging] = useState(false);
+  const [packageError, setPackageError] = useState<string | null>(null);
+
+  const getInstallPackage = async () => {
+    setPackaging(true);
+    setPackageError(null);
+    try {
+      await downloadInstallPackage(group, activeTheme);
+    } catch (err: any) {
+      setPackageError(err.message);
+    } finally {
+      setPackaging(false);
+    }
+  };
 
   // Helper to show relative time for recent updates and pure date for older ones
   const getSmartDate = (dateStr?: string) => {
@@ -61,15 +98,38 @@ export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onToggleP
     setActiveThemeId(newId);
   };
 
-  // Update active theme if matchedThemeId changes (e.g. new search)
   useEffect(() => {
+    onActiveThemeChange?.(activeThemeId);
+  }, [activeThemeId]);
+
+  // Update active theme if matchedThemeId changes (e.g. new search).
+  // Compared with the last value so a restored variant survives the first render.
+  const lastMatchedId = useRef(matchedThemeId);
+  useEffect(() => {
+    if (matchedThemeId === lastMatchedId.current) return;
+    lastMatchedId.current = matchedThemeId;
     if (matchedThemeId && themes.some(t => t.id === matchedThemeId)) {
       setActiveThemeId(matchedThemeId);
     }
   }, [matchedThemeId, themes]);
 
+  // Follow the site switching between light and dark mode
+  const lastPreferDark = useRef(preferDark);
+  useEffect(() => {
+    if (preferDark === lastPreferDark.current) return;
+    lastPreferDark.current = preferDark;
+    if (!matchedThemeId) setActiveThemeId(defaultThemeId());
+  }, [preferDark]);
+
+  // Search highlights belong to the variant that matched
+  const highlights = activeTheme.id === matchedThemeId ? group.matchHighlights : undefined;
+  const snippet = activeTheme.id === matchedThemeId ? group.matchSnippet : undefined;
+
+  const palette = activeTheme.palette;
+  const swatches = palette ? [palette.background, ...palette.accents].filter((c): c is string => !!c) : [];
+
   return (
-    <div className={`group relative aspect-[5/4] bg-white dark:bg-gray-800 rounded-2xl shadow-sm hover:shadow-2xl transition-all duration-500 border overflow-hidden ${isPinned ? 'border-brand-300 dark:border-brand-800 ring-2 ring-brand-100/50 dark:ring-brand-900/30' : 'border-gray-200 dark:border-gray-700'
+    <div className={`group relative aspect-[5/4] bg-white dark:bg-gray-800 rounded-2xl shadow-sm hover:shadow-2xl transition-all duration-500 border overflow-hidden ${isCompared ? 'border-brand-500 ring-2 ring-brand-500/40' : isPinned ? 'border-brand-300 dark:border-brand-800 ring-2 ring-brand-100/50 dark:ring-brand-900/30' : 'border-gray-200 dark:border-gray-700'
       }`}>
 
       {/* Full Background Image Carousel */}
@@ -130,6 +190,13 @@ export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onToggleP
         </div>
       )}
 
+      {/* Data Source Badge */}
+      {showSource && (activeTheme.source || group.source) && (
+        <div className="absolute top-2 right-2 z-20 px-1.5 py-0.5 rounded-md bg-black/50 backdrop-blur-md text-[9px] font-medium text-white/90 pointer-events-none group-hover:opacity-0 transition-opacity">
+          {activeTheme.source || group.source}
+        </div>
+      )}
+
       {/* Main Link to Detail */}
       <Link
         to={`/theme/${encodeURIComponent(group.id)}?variant=${encodeURIComponent(activeThemeId)}`}
@@ -141,14 +208,26 @@ export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onToggleP
         <div className="group/info bg-black/60 backdrop-blur-xl rounded-xl p-3 shadow-2xl border border-white/10 w-auto min-w-[55%] max-w-[calc(100%-24px)] pointer-events-auto">
           <div className="flex items-center justify-between gap-3 min-w-0">
             <span className="font-medium text-[10px] text-white whitespace-nowrap overflow-hidden text-ellipsis flex-1 min-w-0">
-              {activeTheme.title}
+              <Highlight text={activeTheme.title} ranges={highlights?.title} />
             </span>
 
+            {swatches.length > 0 && (
+              <div className="flex -space-x-1 flex-shrink-0" title={swatches.join(' ')}>
+                {swatches.map(color => (
+                  <span key={color} className="w-2.5 h-2.5 rounded-full ring-1 ring-white/40" style={{ backgroundColor: color }} />
+                ))}
+              </div>
+            )}
+
             {/* Minimal Stats (Normal State Only) */}
             <div className="flex items-center gap-2 text-[10px] text-gray-300 group-hover/info:hidden transition-all duration-700 font-medium flex-shrink-0">
               <div className="flex items-center gap-0.5 h-full">
                 <Star size={10} className="text-amber-500 fill-amber-500 -translate-y-[0.5px]" />
-                <span className="leading-none">{stats?.stars || 0}</span>
+                {loadingStats && !stats ? (
+                  <Loader2 size={10} className="animate-spin" />
+                ) : (
+                  <span className="leading-none">{stats?.stars || 0}</span>
+                )}
               </div>
               <div className="flex items-center gap-0.5">
                 <span className="whitespace-nowrap leading-none">{getSmartDate(stats?.lastCommitAt)}</span>
@@ -156,26 +235,37 @@ export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onToggleP
             </div>
           </div>
 
+          {/* Where a full-text search matched the post */}
+          {snippet && (
+            <p className="mt-1.5 text-[10px] text-gray-300 line-clamp-2 leading-relaxed">
+              <Highlight text={snippet.text} ranges={snippet.ranges} />
+            </p>
+          )}
+
           {/* Expanded Menu (Hover Only) */}
           <div className="grid grid-rows-[0fr] group-hover/info:grid-rows-[1fr] transition-all duration-700 ease-[cubic-bezier(0.23,1,0.32,1)]">
             <div className="overflow-hidden min-w-0">
               <div className="pt-2 mt-2 border-t border-white/10 min-w-0 opacity-0 group-hover/info:opacity-100 transition-opacity duration-700 delay-100">
                 <div className="flex items-center justify-between gap-4 text-[10px] text-gray-400 mb-2">
-                  <a
-                    href={`https://github.com/${group.repoOwner}`}
-                    target="_blank"
-                    rel="noreferrer"
-                    onClick={(e) => e.stopPropagation()}
-                    className="truncate font-medium hover:text-white hover:bg-white/10 px-1.5 py-0.5 -ml-1.5 rounded-md transition-all"
-                  >
-                    {activeTheme.author || group.repoOwner}
-                  </a>
+                  {group.repoOwner === 'unknown' ? (
+                    <span className="truncate font-medium px-1.5 py-0.5 -ml-1.5">
+                      <Highlight text={activeTheme.author || group.repoOwner} ranges={highlights?.author} />
+                    </span>
+                  ) : (
+                    <Link
+                      to={authorPath(group.repoOwner)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="truncate font-medium hover:text-white hover:bg-white/10 px-1.5 py-0.5 -ml-1.5 rounded-md transition-all"
+                    >
+                      <Highlight text={activeTheme.author || group.repoOwner} ranges={highlights?.author} />
+                    </Link>
+                  )}
                   <span className="opacity-60 whitespace-nowrap leading-none">{stats?.lastCommitAt ? getSmartDate(stats.lastCommitAt) : t.unknown}</span>
                 </div>
 
                 {activeTheme.description && (
                   <p className="text-[10px] text-gray-300 line-clamp-1 mb-3 leading-relaxed italic">
-                    {activeTheme.description}
+                    <Highlight text={activeTheme.description} ranges={highlights?.description} />
                   </p>
                 )}
 
@@ -193,17 +283,42 @@ export const ThemeCard: React.FC<ThemeCardProps> = ({ group, isPinned, onToggleP
                     >
                       <Pin size={14} className={isPinned ? "fill-current" : ""} />
                     </button>
+                    <button
+                      onClick={(e) => { e.preventDefault(); e.stopPropagation(); onOpenCollections(); }}
+                      className={`p-1.5 rounded-lg transition-all ${isCollected ? 'text-brand-400 bg-brand-400/10' : 'text-gray-400 hover:text-brand-400 hover:bg-white/10'}`}
+                      title={t.addToCollection}
+                    >
+                      <FolderHeart size={14} className={isCollected ? "fill-current" : ""} />
+                    </button>
+                    <button
+                      onClick={(e) => { e.preventDefault(); e.stopPropagation(); onToggleCompare(); }}
+                      disabled={!isCompared && compareFull}
+                      className={`p-1.5 rounded-lg transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isCompared ? 'text-brand-400 bg-brand-400/10' : 'text-gray-400 hover:text-brand-400 hover:bg-white/10'}`}
+                      title={isCompared ? t.removeFromCompare : compareFull ? t.compareHint : t.addToCompare}
+                    >
+                      <GitCompare size={14} />
+                    </button>
                     {activeTheme.homepage && (
                       <a
                         href={activeTheme.homepage}
                         target="_blank" rel="noreferrer"
                         onClick={(e) => e.stopPropagation()}
                         className="p-1.5 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all"
-                        title={t.viewGithub}
+                        title={hasRepository(repoRef) ? `${t.viewSource} ${forgeLabel(repoRef)}` : t.viewHomepage}
                       >
-                        <Github size={14} />
+                        {ForgeIcon ? <ForgeIcon size={14} /> : <ExternalLink size={14} />}
                       </a>
                     )}
+                    {canBuildInstallPackage(group) && (
+                      <button
+                        onClick={(e) => { e.preventDefault(); e.stopPropagation(); getInstallPackage(); }}
+                        disabled={packaging}
+                        className={`p-1.5 rounded-lg transition-all hover:bg-white/10 ${packageError ? 'text-red-400' : 'text-gray-400 hover:text-brand-400'}`}
+                        title={packageError ? `${t.installPackageFailed}: ${packageError}` : t.installPackage}
+                      >
+                        {packaging ? <Loader2 size={14} className="animate-spin" /> : <Package size={14} />}
+                      </button>
+                    )}
                     {activeTheme.download && (
                       <a
                         href={activeTheme.download}
@@ -1,15 +1,28 @@
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Link, useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import rehypeHighlight from 'rehype-highlight';
 import rehypeRaw from 'rehype-raw';
 import remarkGfm from 'remark-gfm';
-import { ArrowLeft, Loader2, AlertCircle, ExternalLink, Star, Calendar, User } from 'lucide-react';
-import { fetchThemesFromStatic } from '../services/githubService';
+import { ArrowLeft, Loader2, AlertCircle, ExternalLink, Star, Calendar, User, FileText, Eye, Package } from 'lucide-react';
+import { loadThemeDataset } from '../services/dataSources';
 import { ThemeGroup } from '../types';
+import { parseFrontmatter } from '../utils/frontmatter';
+import { readThemeDataset, writeThemeDataset } from '../services/cache';
+import { conditionalFetch } from '../services/http';
+import { readStarHistory, StarSnapshot } from '../services/starHistory';
+import { Sparkline } from './Sparkline';
+import { Language, translations } from '../utils/i18n';
+import { ThemePreviewFrame, useThemeStylesheet } from './ThemePreviewFrame';
+import { DocumentPanel } from './DocumentPanel';
+import { authorPath } from './AuthorView';
+import { SAMPLE_DOCUMENT } from '../utils/sampleDocument';
 import { formatDate, formatDateCustom } from '@caolib/time-util';
+import { groupRepoRef, forgeLabel, hasRepository } from '../utils/repoRef';
+import { canBuildInstallPackage, downloadInstallPackage } from '../services/installPackage';
 
-export const ThemeDetail: React.FC = () => {
+export const ThemeDetail: React.FC<{ lang: Language }> = ({ lang }) => {
+    const t = translations[lang];
     const { id } = useParams<{ id: string }>();
     // Handle cases where id might contain slashes (repoOwner/repoName)
     // Actually, extracting "id" from the URL path might be tricky if "id" itself contains slashes.
@@ -18,28 +31,98 @@ export const ThemeDetail: React.FC = () => {
     // Ideally, we pass the group ID, but the group ID is "owner/repo".
 
     const navigate = useNavigate();
+    const location = useLocation();
     const [searchParams] = useSearchParams();
     const [markdown, setMarkdown] = useState<string>('');
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [group, setGroup] = useState<ThemeGroup | null>(null);
+    const [starSnapshots, setStarSnapshots] = useState<StarSnapshot[]>([]);
+
+    // Live preview renders a sample document with the variant's own CSS,
+    // which needs a repository to fetch it from
+    const [tab, setTab] = useState<'post' | 'preview'>('post');
+    const [previewVariantId, setPreviewVariantId] = useState<string | null>(null);
+    const previewTheme = group?.themes.find(t => t.id === previewVariantId) || group?.themes[0] || null;
+    const canPreview = !!group && hasRepository(groupRepoRef(group));
+    const showPreview = tab === 'preview' && canPreview;
+    const { stylesheet, loading: stylesheetLoading, error: stylesheetError } =
+        useThemeStylesheet(showPreview ? group : null, previewTheme);
+
+    // The user's own document is kept across themes and visits
+    const [ownDocument, setOwnDocument] = useState(() => localStorage.getItem('preview_document') || '');
+    const [useOwnDocument, setUseOwnDocument] = useState(() => localStorage.getItem('preview_use_own') === 'true');
+
+    const [packaging, setPackaging] = useState(false);
+    const [packageError, setPackageError] = useState<string | null>(null);
+
+    const getInstallPackage = async () => {
+        if (!group || !previewTheme) return;
+        setPackaging(true);
+        setPackageError(null);
+        try {
+            await downloadInstallPackage(group, previewTheme);
+        } catch (err: any) {
+            setPackageError(err.message);
+        } finally {
+            setPackaging(false);
+        }
+    };
+
+    // Going back returns to the gallery view the user came from, filters and scroll position included.
+    // Pages opened directly have no history entry of ours to go back to.
+    const backToGallery = () => {
+        if (location.key !== 'default') navigate(-1);
+        else navigate('/');
+    };
+
+    // Theme pages start at the top; the gallery restores its own scroll position
+    useEffect(() => {
+        window.scrollTo(0, 0);
+    }, [id]);
+
+    const [documentTooLarge, setDocumentTooLarge] = useState(false);
+
+    useEffect(() => {
+        try {
+            localStorage.setItem('preview_document', ownDocument);
+            setDocumentTooLarge(false);
+        } catch (e) {
+            // Over the storage quota: keep previewing it, just don't remember it
+            localStorage.removeItem('preview_document');
+            setDocumentTooLarge(true);
+        }
+    }, [ownDocument]);
+
+    useEffect(() => {
+        localStorage.setItem('preview_use_own', String(useOwnDocument));
+    }, [useOwnDocument]);
 
     useEffect(() => {
         const loadTheme = async () => {
             try {
                 setLoading(true);
-                // Use cached data if available (force=false)
-                const groups = await fetchThemesFromStatic(false);
                 // Decode the ID in case it was encoded for the URL
                 const decodedId = decodeURIComponent(id || '');
-                const foundGroup = groups.find(g => g.id === decodedId);
+
+                // Use cached data if available, even if stale; the gallery revalidates it
+                const cached = await readThemeDataset();
+                let foundGroup = cached?.data.groups.find(g => g.id === decodedId);
+                if (!foundGroup) {
+                    // Skip the slow live-API fallback here; the gallery takes care of that
+                    const dataset = await loadThemeDataset({ allowFallback: false });
+                    await writeThemeDataset(dataset);
+                    foundGroup = dataset.groups.find(g => g.id === decodedId);
+                }
 
                 if (!foundGroup) {
-                    setError('Theme not found');
+                    setError(t.themeNotFound);
                     return;
                 }
 
                 setGroup(foundGroup);
+                const groupId = foundGroup.id;
+                readStarHistory().then(history => setStarSnapshots(history[groupId] || []));
 
                 // Determine which theme to show. If variant is provided in URL, prioritize it.
                 // Otherwise use the first theme.
@@ -49,23 +132,23 @@ export const ThemeDetail: React.FC = () => {
                     : foundGroup.themes[0];
 
                 if (!themeItem || !themeItem.fileName) {
-                    setError('No markdown file associated with this theme.');
+                    setError(t.noMarkdownFile);
                     return;
                 }
+                setPreviewVariantId(themeItem.id);
 
                 const rawUrl = `https://raw.githubusercontent.com/typora/theme.typora.io/gh-pages/_posts/theme/${themeItem.fileName}`;
                 // Verify if we need to remove ".md" from URL or if fileName includes it?
                 // fileName in themes.json includes ".md". 
                 // Example: "2025-8-22-OneLight.md"
 
-                const response = await fetch(rawUrl);
+                const response = await conditionalFetch(rawUrl);
                 if (!response.ok) {
                     throw new Error('Failed to fetch markdown content');
                 }
                 const text = await response.text();
-                // Remove frontmatter if present (usually between --- and ---)
-                const cleanText = text.replace(/^---[\s\S]*?---/, '');
-                setMarkdown(cleanText);
+                // Only render the post body, not its frontmatter
+                setMarkdown(parseFrontmatter(text).body);
 
             } catch (err: any) {
                 setError(err.message);
@@ -92,7 +175,7 @@ export const ThemeDetail: React.FC = () => {
         return (
             <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900">
                 <Loader2 className="w-10 h-10 animate-spin text-brand-500" />
-                <p className="mt-4 text-gray-500 dark:text-gray-400">Loading theme details...</p>
+                <p className="mt-4 text-gray-500 dark:text-gray-400">{t.loadingThemeDetails}</p>
             </div>
         );
     }
@@ -101,45 +184,55 @@ export const ThemeDetail: React.FC = () => {
         return (
             <div className="flex flex-col items-center justify-center min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
                 <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
-                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Error</h2>
-                <p className="text-gray-500 dark:text-gray-400 mb-6">{error || 'Theme not found'}</p>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{t.error}</h2>
+                <p className="text-gray-500 dark:text-gray-400 mb-6">{error || t.themeNotFound}</p>
                 <button
-                    onClick={() => navigate('/')}
+                    onClick={backToGallery}
                     className="px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 transition"
                 >
-                    Back to Gallery
+                    {t.backToGallery}
                 </button>
             </div>
         );
     }
 
+    const repoRef = groupRepoRef(group);
+
     return (
         <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
             {/* Header */}
             <header className="sticky top-0 z-10 bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 px-4 py-4 sm:px-6 lg:px-8">
                 <div className="max-w-5xl mx-auto flex items-center justify-between gap-4">
                     <button
-                        onClick={() => navigate('/')}
+                        onClick={backToGallery}
                         className="flex items-center gap-2 text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400 transition flex-shrink-0"
                     >
                         <ArrowLeft size={20} />
-                        <span className="font-medium hidden sm:inline">Back</span>
+                        <span className="font-medium hidden sm:inline">{t.back}</span>
                     </button>
 
                     <div className="flex items-center gap-3 sm:gap-6 text-sm text-gray-500 dark:text-gray-400 overflow-hidden">
-                        <a
-                            href={`https://github.com/${group.repoOwner}`}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="flex items-center gap-1.5 hover:text-brand-600 dark:hover:text-brand-400 transition truncate"
-                        >
-                            <User size={16} />
-                            <span className="font-medium">{group.repoOwner}</span>
-                        </a>
+                        {group.repoOwner === 'unknown' ? (
+                            <span className="flex items-center gap-1.5 truncate">
+                                <User size={16} />
+                                <span className="font-medium">{group.themes[0].author || group.repoOwner}</span>
+                            </span>
+                        ) : (
+                            <Link
+                                to={authorPath(group.repoOwner)}
+                                className="flex items-center gap-1.5 hover:text-brand-600 dark:hover:text-brand-400 transition truncate"
+                            >
+                                <User size={16} />
+                                <span className="font-medium">{group.repoOwner}</span>
+                            </Link>
+                        )}
 
                         <div className="flex items-center gap-1.5 flex-shrink-0">
                             <Star size={16} className="text-amber-500 fill-amber-500" />
                             <span className="font-medium">{group.stats?.stars?.toLocaleString() || 0}</span>
+                            <span className="hidden sm:inline-flex">
+                                <Sparkline snapshots={starSnapshots} width={64} height={18} className="text-amber-500" title={t.starHistory} />
+                            </span>
                         </div>
 
                         <div className="hidden md:flex items-center gap-1.5 flex-shrink-0">
@@ -149,38 +242,132 @@ export const ThemeDetail: React.FC = () => {
                     </div>
 
                     <div className="flex items-center gap-4 flex-shrink-0">
-                        <a
-                            href={group.themes[0].homepage}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="flex items-center gap-2 text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline"
-                        >
-                            <ExternalLink size={16} />
-                            <span className="hidden sm:inline">View on GitHub</span>
-                        </a>
+                        {canBuildInstallPackage(group) && (
+                            <button
+                                onClick={getInstallPackage}
+                                disabled={packaging}
+                                className={`flex items-center gap-2 text-sm font-medium transition ${packageError ? 'text-red-500' : 'text-gray-600 dark:text-gray-300 hover:text-brand-600 dark:hover:text-brand-400'}`}
+                                title={packageError ? `${t.installPackageFailed}: ${packageError}` : t.installPackageHint.replace('{title}', previewTheme?.title || '')}
+                            >
+                                {packaging ? <Loader2 size={16} className="animate-spin" /> : <Package size={16} />}
+                                <span className="hidden sm:inline">{t.installPackageShort}</span>
+                            </button>
+                        )}
+                        {group.themes[0].homepage && (
+                            <a
+                                href={group.themes[0].homepage}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="flex items-center gap-2 text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline"
+                            >
+                                <ExternalLink size={16} />
+                                <span className="hidden sm:inline">{hasRepository(repoRef) ? t.viewOn.replace('{forge}', forgeLabel(repoRef)) : t.viewHomepage}</span>
+                            </a>
+                        )}
                     </div>
                 </div>
             </header>
 
             <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                <article className="prose prose-lg dark:prose-invert max-w-none bg-white dark:bg-gray-800 p-8 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
-                    {/* Enable HTML rendering with rehype-raw and GFM tables with remark-gfm */}
-                    <ReactMarkdown
-                        rehypePlugins={[rehypeHighlight, rehypeRaw]}
-                        remarkPlugins={[remarkGfm]}
-                        components={{
-                            img: ({ node, ...props }) => {
-                                let src = props.src;
-                                if (src && src.startsWith('/')) {
-                                    src = `https://theme.typora.io${src}`;
+                {/* Tabs */}
+                {canPreview && (
+                    <div className="flex items-center gap-1 mb-6 p-1 w-fit bg-gray-100 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                        {(['post', 'preview'] as const).map(key => (
+                            <button
+                                key={key}
+                                onClick={() => setTab(key)}
+                                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${tab === key ? 'bg-white dark:bg-gray-700 shadow-sm text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                            >
+                                {key === 'post' ? <FileText size={14} /> : <Eye size={14} />}
+                                {key === 'post' ? t.tabDescription : t.tabLivePreview}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {showPreview ? (
+                    <section>
+                        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                            <div className="flex items-center gap-1 text-xs">
+                                {[false, true].map(own => (
+                                    <button
+                                        key={String(own)}
+                                        onClick={() => setUseOwnDocument(own)}
+                                        className={`px-2.5 py-1 rounded-md font-medium transition-colors ${useOwnDocument === own ? 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'}`}
+                                    >
+                                        {own ? t.myDocument : t.sampleDocument}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {group.themes.length > 1 && (
+                            <div className="flex flex-wrap gap-2 mb-4">
+                                {group.themes.map(theme => (
+                                    <button
+                                        key={theme.id}
+                                        onClick={() => setPreviewVariantId(theme.id)}
+                                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${previewTheme?.id === theme.id ? 'bg-brand-600 border-brand-600 text-white' : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-300 hover:border-brand-500'}`}
+                                    >
+                                        {theme.title}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {stylesheetLoading ? (
+                            <div className="flex items-center justify-center h-96 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700">
+                                <Loader2 className="w-8 h-8 animate-spin text-brand-500" />
+                            </div>
+                        ) : stylesheetError ? (
+                            <div className="flex items-center justify-center gap-2 h-96 bg-white dark:bg-gray-800 rounded-2xl border border-gray-100 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                                <AlertCircle size={18} className="text-red-500" />
+                                {stylesheetError}
+                            </div>
+                        ) : (
+                            <div className={useOwnDocument ? 'grid grid-cols-1 lg:grid-cols-3 gap-4' : ''}>
+                                {useOwnDocument && (
+                                    <DocumentPanel
+                                        value={ownDocument}
+                                        onChange={setOwnDocument}
+                                        notice={documentTooLarge ? t.documentTooLarge : undefined}
+                                        className="h-[40vh] lg:h-[75vh]"
+                                        t={t}
+                                    />
+                                )}
+                                <div className={useOwnDocument ? 'lg:col-span-2' : ''}>
+                                    <ThemePreviewFrame
+                                        markdown={useOwnDocument && ownDocument ? ownDocument : SAMPLE_DOCUMENT}
+                                        stylesheetUrl={stylesheet?.url}
+                                        className="h-[75vh] rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700"
+                                    />
+                                    {stylesheet && (
+                                        <p className="mt-2 text-xs text-gray-400 font-mono">{stylesheet.path}</p>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </section>
+                ) : (
+                    <article className="prose prose-lg dark:prose-invert max-w-none bg-white dark:bg-gray-800 p-8 rounded-2xl shadow-sm border border-gray-100 dark:border-gray-700">
+                        {/* Enable HTML rendering with rehype-raw and GFM tables with remark-gfm */}
+                        <ReactMarkdown
+                            rehypePlugins={[rehypeHighlight, rehypeRaw]}
+                            remarkPlugins={[remarkGfm]}
+                            components={{
+                                img: ({ node, ...props }) => {
+                                    let src = props.src;
+                                    if (src && src.startsWith('/')) {
+                                        src = `https://theme.typora.io${src}`;
+                                    }
+                                    return <img {...props} src={src} className="max-w-full h-auto rounded-lg my-4" />;
                                 }
-                                return <img {...props} src={src} className="max-w-full h-auto rounded-lg my-4" />;
-                            }
-                        }}
-                    >
-                        {markdown}
-                    </ReactMarkdown>
-                </article>
+                            }}
+                        >
+                            {markdown}
+                        </ReactMarkdown>
+                    </article>
+                )}
             </main>
         </div>
     );
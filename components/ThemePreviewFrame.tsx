@@ -0,0 +1,107 @@
+import React, { forwardRef, useEffect, useMemo, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeRaw from 'rehype-raw';
+import remarkGfm from 'remark-gfm';
+import { ThemeGroup, ThemeItem } from '../types';
+import { findThemeStylesheet, ThemeStylesheet } from '../services/themeCss';
+
+interface ThemePreviewFrameProps {
+  markdown: string;
+  stylesheetUrl?: string;
+  className?: string;
+  onScroll?: () => void;
+}
+
+/**
+ * Renders Markdown into Typora's export structure (body > .typora-export-content > #write)
+ * so theme selectors match the way they do in the editor
+ */
+export const buildPreviewHtml = (markdown: string, stylesheetUrl?: string): string => {
+  const body = renderToStaticMarkup(
+    <ReactMarkdown
+      rehypePlugins={[rehypeHighlight, rehypeRaw]}
+      remarkPlugins={[remarkGfm]}
+      components={{
+        // Typora renders code blocks as .md-fences
+        pre: ({ node, ...props }) => <pre {...props} className="md-fences" />,
+      }}
+    >
+      {markdown}
+    </ReactMarkdown>
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<base target="_blank">
+${stylesheetUrl ? `<link rel="stylesheet" href="${stylesheetUrl}">` : ''}
+</head>
+<body class="typora-export">
+<div class="typora-export-content">
+<div id="write">${body}</div>
+</div>
+</body>
+</html>`;
+};
+
+/**
+ * Sandboxed iframe showing a document styled by a theme's own CSS.
+ * Scripts stay disabled; same-origin is allowed so parents can read and sync the scroll position.
+ */
+export const ThemePreviewFrame = forwardRef<HTMLIFrameElement, ThemePreviewFrameProps>(
+  ({ markdown, stylesheetUrl, className = '', onScroll }, ref) => {
+    const html = useMemo(() => buildPreviewHtml(markdown, stylesheetUrl), [markdown, stylesheetUrl]);
+
+    return (
+      <iframe
+        ref={ref}
+        title="Theme preview"
+        sandbox="allow-same-origin"
+        srcDoc={html}
+        className={`w-full bg-white ${className}`}
+        onLoad={(e) => {
+          if (onScroll) e.currentTarget.contentWindow?.addEventListener('scroll', onScroll);
+        }}
+      />
+    );
+  }
+);
+
+/**
+ * Looks up the stylesheet of a theme variant, tracking loading and error state
+ */
+export const useThemeStylesheet = (group: ThemeGroup | null, theme: ThemeItem | null) => {
+  const [stylesheet, setStylesheet] = useState<ThemeStylesheet | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!group || !theme) return;
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    setStylesheet(null);
+    findThemeStylesheet(group, theme)
+      .then(result => {
+        if (cancelled) return;
+        if (result) setStylesheet(result);
+        else setError('No CSS file found in the repository');
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [group, theme]);
+
+  return { stylesheet, loading, error };
+};
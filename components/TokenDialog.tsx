@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { KeyRound, X, Loader2, CheckCircle2, AlertCircle, Trash2 } from 'lucide-react';
+import { translations } from '../utils/i18n';
+import { fetchRateLimit } from '../services/githubService';
+import { getToken, isTokenPersistent, saveToken, clearToken } from '../services/token';
+import { updateRateLimit } from '../services/scheduler';
+
+interface TokenDialogProps {
+  t: typeof translations['en'];
+  onClose: () => void;
+  onTokenChange: (hasToken: boolean) => void;
+}
+
+const TOKEN_SETTINGS_URL = 'https://github.com/settings/personal-access-tokens/new';
+
+// Only show enough of a saved token to recognize it
+const maskToken = (token: string) => token.length > 8 ? `${token.slice(0, 4)}…${token.slice(-4)}` : '••••';
+
+export const TokenDialog: React.FC<TokenDialogProps> = ({ t, onClose, onTokenChange }) => {
+  const [savedToken, setSavedToken] = useState(getToken);
+  const [input, setInput] = useState('');
+  const [persist, setPersist] = useState(() => !savedToken || isTokenPersistent());
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [grantedLimit, setGrantedLimit] = useState<number | null>(null);
+
+  const handleSave = async () => {
+    const token = input.trim();
+    if (!token) return;
+
+    setChecking(true);
+    setError(null);
+    try {
+      const rate = await fetchRateLimit(token);
+      if (!rate) {
+        setError(t.tokenInvalid);
+        return;
+      }
+      saveToken(token, persist);
+      updateRateLimit(rate);
+      setSavedToken(token);
+      setInput('');
+      setGrantedLimit(rate.limit);
+      onTokenChange(true);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleClear = () => {
+    clearToken();
+    setSavedToken(undefined);
+    setGrantedLimit(null);
+    onTokenChange(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-2xl border border-gray-200 dark:border-gray-700 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center gap-2 text-lg font-bold text-gray-900 dark:text-white">
+            <KeyRound size={18} className="text-brand-600 dark:text-brand-400" />
+            {t.tokenTitle}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">{t.tokenDesc}</p>
+
+        <ol className="text-xs text-gray-500 dark:text-gray-400 space-y-1 mb-5">
+          <li>
+            {t.tokenGuide1}{' '}
+            <a href={TOKEN_SETTINGS_URL} target="_blank" rel="noreferrer" className="text-brand-600 dark:text-brand-400 hover:underline">
+              GitHub Settings → Fine-grained tokens
+            </a>
+          </li>
+          <li>{t.tokenGuide2}</li>
+          <li>{t.tokenGuide3}</li>
+        </ol>
+
+        {savedToken && (
+          <div className="flex items-center justify-between gap-3 mb-4 px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700">
+            <div className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-200 min-w-0">
+              <CheckCircle2 size={14} className="text-green-500 flex-shrink-0" />
+              <span className="font-medium">{t.tokenSet}</span>
+              <code className="text-gray-400 truncate">{maskToken(savedToken)}</code>
+            </div>
+            <button
+              onClick={handleClear}
+              className="flex items-center gap-1 text-xs text-red-500 hover:text-red-600 transition-colors flex-shrink-0"
+            >
+              <Trash2 size={12} />
+              {t.clearToken}
+            </button>
+          </div>
+        )}
+
+        <input
+          type="password"
+          autoComplete="off"
+          placeholder={savedToken ? t.tokenReplace : 'github_pat_…'}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+          className="w-full px-3 h-10 bg-gray-100 dark:bg-gray-900/50 border border-transparent focus:border-brand-500 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-500/20 text-sm text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+        />
+
+        <div className="flex items-center gap-4 mt-3 text-xs text-gray-600 dark:text-gray-300">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="radio" checked={!persist} onChange={() => setPersist(false)} />
+            {t.tokenSession}
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="radio" checked={persist} onChange={() => setPersist(true)} />
+            {t.tokenPersist}
+          </label>
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-1.5 mt-3 text-xs text-red-500">
+            <AlertCircle size={14} />
+            {error}
+          </p>
+        )}
+        {grantedLimit !== null && (
+          <p className="flex items-center gap-1.5 mt-3 text-xs text-green-600 dark:text-green-400">
+            <CheckCircle2 size={14} />
+            {t.tokenLimit} {grantedLimit.toLocaleString()}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            {t.cancel}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={checking || !input.trim()}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-brand-600 text-white rounded-lg shadow hover:bg-brand-700 disabled:opacity-50 transition-colors"
+          >
+            {checking && <Loader2 size={14} className="animate-spin" />}
+            {t.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
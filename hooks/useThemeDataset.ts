@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { ThemeDataset } from '../types';
+import { getThemeDataset } from '../services/dataSources';
+
+/**
+ * Loads the dataset for a page through getThemeDataset; error holds the failure message
+ */
+export const useThemeDataset = (): { dataset: ThemeDataset | null; error: string | null } => {
+  const [dataset, setDataset] = useState<ThemeDataset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getThemeDataset()
+      .then(result => !cancelled && setDataset(result))
+      .catch((err: unknown) => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { dataset, error };
+};
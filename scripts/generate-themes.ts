@@ -0,0 +1,189 @@
+/**
+ * Builds themes.json from a local checkout of theme.typora.io.
+ *
+ * Usage:
+ *   pnpm generate <path/to/_posts/theme> [--out themes.json] [--stats] [--palette] [--text themes-text.json] [--token <token>]
+ *
+ * --stats fetches live repository stats from GitHub (GITHUB_TOKEN is used when --token is omitted).
+ * --palette analyzes each variant's CSS for colors, fonts and light/dark appearance (GitHub repositories only).
+ * --text writes the plain text of every post body to a separate file, the gallery's full-text search index.
+ */
+import { readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { PostTextIndex, ThemeGroup } from '../types';
+import { buildThemeItem } from '../services/githubService';
+import { fetchForgeStats } from '../services/forgeStats';
+import { fetchThemePalette } from '../services/themeCss';
+import { groupThemes } from '../utils/themeGroups';
+import { groupRepoRef, hasRepository } from '../utils/repoRef';
+import { parseFrontmatter } from '../utils/frontmatter';
+import { postToPlainText } from '../utils/postText';
+
+const BATCH_SIZE = 5;
+const DELAY_MS = 1000;
+
+export interface CliOptions {
+  postsDir: string;
+  out?: string;
+  stats: boolean;
+  palette: boolean;
+  text?: string; // Where to write the full-text index
+  token?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = { postsDir: '', stats: false, palette: false, token: process.env.GITHUB_TOKEN };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--out') options.out = argv[++i];
+    else if (arg === '--stats') options.stats = true;
+    else if (arg === '--palette') options.palette = true;
+    else if (arg === '--text') options.text = argv[++i];
+    else if (arg === '--token') options.token = argv[++i];
+    else if (arg.startsWith('--')) throw new Error(`Unknown option: ${arg}`);
+    else options.postsDir = arg;
+  }
+
+  if (!options.postsDir) {
+    throw new Error('Usage: generate-themes <path/to/_posts/theme> [--out themes.json] [--stats] [--palette] [--text themes-text.json] [--token <token>]');
+  }
+  return options;
+};
+
+export interface Post {
+  fileName: string;
+  text: string;
+}
+
+export const readPosts = async (postsDir: string): Promise<Post[]> => {
+  const fileNames = (await readdir(postsDir))
+    .filter(name => name.endsWith('.md'))
+    .sort();
+
+  return Promise.all(fileNames.map(async fileName => ({
+    fileName,
+    text: await readFile(path.join(postsDir, fileName), 'utf-8'),
+  })));
+};
+
+/**
+ * Builds the variants from the posts and groups them by repository
+ */
+export const generateThemeGroups = (posts: Post[]): ThemeGroup[] => {
+  const themes = posts.map(post => buildThemeItem(post.fileName, post.text));
+
+  // The static dataset is complete as written, so nothing is left loading
+  return groupThemes(themes).map(g => ({ ...g, loadingStats: false }));
+};
+
+/**
+ * Maps each theme id to the plain text of its post body, skipping empty posts
+ */
+export const generatePostTextIndex = (posts: Post[]): PostTextIndex => {
+  const index: PostTextIndex = {};
+  posts.forEach(post => {
+    // Theme ids are the post file names, see buildThemeItem
+    const text = postToPlainText(parseFrontmatter(post.text).body);
+    if (text) index[post.fileName] = text;
+  });
+  return index;
+};
+
+/**
+ * Attaches live repository stats to every group with a known repository
+ */
+const enrichWithStats = async (groups: ThemeGroup[], token?: string): Promise<ThemeGroup[]> => {
+  const result = [...groups];
+  const pending = result
+    .map((g, idx) => ({ g, idx }))
+    .filter(({ g }) => hasRepository(groupRepoRef(g)));
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    const stats = await Promise.all(batch.map(({ g }) => fetchForgeStats(groupRepoRef(g), token)));
+
+    batch.forEach(({ g, idx }, j) => {
+      result[idx] = { ...g, stats: stats[j] };
+    });
+
+    if (stats.some(s => s.isRateLimit)) {
+      console.error(`GitHub rate limit reached after ${i + batch.length} of ${pending.length} repositories.`);
+      break;
+    }
+    if (i + BATCH_SIZE < pending.length) await sleep(DELAY_MS);
+  }
+
+  return result;
+};
+
+/**
+ * Attaches a palette to every variant whose stylesheet can be found
+ */
+const enrichWithPalettes = async (groups: ThemeGroup[], token?: string): Promise<ThemeGroup[]> => {
+  const result = [...groups];
+  const pending = result
+    .map((g, idx) => ({ g, idx }))
+    .filter(({ g }) => groupRepoRef(g).forge === 'github');
+
+  let analyzed = 0;
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    await Promise.all(batch.map(async ({ g, idx }) => {
+      try {
+        const themes = [];
+        for (const theme of g.themes) {
+          const palette = await fetchThemePalette(g, theme, token);
+          if (palette) analyzed++;
+          themes.push(palette ? { ...theme, palette } : theme);
+        }
+        result[idx] = { ...g, themes };
+      } catch (error: any) {
+        console.error(`No palette for ${g.id}: ${error.message || error}`);
+      }
+    }));
+    if (i + BATCH_SIZE < pending.length) await sleep(DELAY_MS);
+  }
+
+  console.error(`Analyzed the stylesheets of ${analyzed} themes.`);
+  return result;
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+
+  const posts = await readPosts(options.postsDir);
+  let groups = generateThemeGroups(posts);
+  if (options.stats) {
+    groups = await enrichWithStats(groups, options.token);
+  }
+  if (options.palette) {
+    groups = await enrichWithPalettes(groups, options.token);
+  }
+
+  if (options.text) {
+    const index = generatePostTextIndex(posts);
+    await writeFile(options.text, JSON.stringify(index) + '\n');
+    console.error(`Wrote the text of ${Object.keys(index).length} posts to ${options.text}`);
+  }
+
+  const json = JSON.stringify(groups, null, 2);
+  if (options.out) {
+    await writeFile(options.out, json + '\n');
+    const variantCount = groups.reduce((sum, g) => sum + g.themes.length, 0);
+    console.error(`Wrote ${groups.length} groups (${variantCount} themes) to ${options.out}`);
+  } else {
+    process.stdout.write(json + '\n');
+  }
+};
+
+// Only run when invoked as a script, so the tests can import the helpers above
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main().catch(error => {
+    console.error(error.message || error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,100 @@
+import { ThemeDataset } from '../types';
+
+const DB_NAME = 'typora-theme-gallery';
+const STORE_NAME = 'cache';
+const DATASET_KEY = 'themes';
+
+// Bump whenever the shape of cached data changes; older entries are then ignored
+export const CACHE_SCHEMA_VERSION = 1;
+const DATASET_SCHEMA_VERSION = 2; // Datasets carry validation issues since v2
+const STALE_AFTER = 10 * 60 * 1000; // 10 minutes
+const MAX_ENTRY_SIZE = 10 * 1024 * 1024; // ~10 MB of JSON
+
+// Caches used before this module existed
+const LEGACY_KEYS = ['themes_json_cache', 'typora_theme_explorer_cache_v2'];
+
+export interface CacheEntry<T> {
+  version: number;
+  timestamp: number; // When the entry was written
+  data: T;
+}
+
+// Entries are mirrored in memory so route changes don't wait on IndexedDB
+const memory = new Map<string, CacheEntry<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing modes may refuse IndexedDB; fall back to memory only
+        console.warn("IndexedDB unavailable, caching in memory only", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Reads a cache entry, ignoring entries written with another schema version
+ */
+export const readCache = async <T>(key: string, version = CACHE_SCHEMA_VERSION): Promise<CacheEntry<T> | null> => {
+  let entry = memory.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    try {
+      entry = await runRequest<CacheEntry<T>>('readonly', store => store.get(key));
+    } catch (e) {
+      console.warn(`Failed to read cache "${key}"`, e);
+    }
+  }
+  if (!entry || entry.version !== version) return null;
+  memory.set(key, entry);
+  return entry;
+};
+
+/**
+ * Writes a cache entry, skipping persistence for oversized values
+ */
+export const writeCache = async <T>(key: string, data: T, version = CACHE_SCHEMA_VERSION): Promise<void> => {
+  const entry: CacheEntry<T> = { version, timestamp: Date.now(), data };
+  memory.set(key, entry);
+
+  const size = JSON.stringify(data).length;
+  if (size > MAX_ENTRY_SIZE) {
+    console.warn(`Cache entry "${key}" is too large to persist (${size} bytes)`);
+    return;
+  }
+  try {
+    await runRequest('readwrite', store => store.put(entry, key));
+  } catch (e) {
+    console.warn(`Failed to write cache "${key}"`, e);
+  }
+};
+
+export const isCacheStale = (entry: CacheEntry<unknown>): boolean => {
+  return Date.now() - entry.timestamp > STALE_AFTER;
+};
+
+export const readThemeDataset = () => readCache<ThemeDataset>(DATASET_KEY, DATASET_SCHEMA_VERSION);
+
+export const writeThemeDataset = (dataset: ThemeDataset) => writeCache(DATASET_KEY, dataset, DATASET_SCHEMA_VERSION);
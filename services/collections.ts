@@ -0,0 +1,132 @@
+const COLLECTIONS_KEY = 'collections';
+const LEGACY_PINNED_KEY = 'pinned_groups';
+const EXPORT_VERSION = 1;
+
+export const PINNED_COLLECTION_ID = 'pinned';
+
+// A named shortlist of theme groups, in the order they were added
+export interface ThemeCollection {
+  id: string;
+  name: string;
+  groupIds: string[];
+}
+
+const pinnedCollection = (groupIds: string[] = []): ThemeCollection => ({
+  id: PINNED_COLLECTION_ID,
+  name: 'Pinned',
+  groupIds,
+});
+
+const isCollection = (value: any): value is ThemeCollection =>
+  !!value && typeof value.id === 'string' && typeof value.name === 'string' &&
+  Array.isArray(value.groupIds) && value.groupIds.every((id: unknown) => typeof id === 'string');
+
+const readLegacyPins = (): string[] => {
+  try {
+    const pins = JSON.parse(localStorage.getItem(LEGACY_PINNED_KEY) || '[]');
+    return Array.isArray(pins) ? pins.filter(id => typeof id === 'string') : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Reads the saved collections. The first read moves pins from before collections existed
+ * into the "Pinned" collection, which always exists and comes first.
+ */
+export const readCollections = (): ThemeCollection[] => {
+  let collections: ThemeCollection[] = [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLLECTIONS_KEY) || 'null');
+    if (Array.isArray(stored)) collections = stored.filter(isCollection);
+  } catch (e) {
+    console.warn("Ignoring unreadable collections", e);
+  }
+
+  const pinned = collections.find(c => c.id === PINNED_COLLECTION_ID);
+  if (!pinned) {
+    collections = [pinnedCollection(readLegacyPins()), ...collections];
+    writeCollections(collections);
+    localStorage.removeItem(LEGACY_PINNED_KEY);
+  } else if (collections[0] !== pinned) {
+    collections = [pinned, ...collections.filter(c => c !== pinned)];
+  }
+  return collections;
+};
+
+export const writeCollections = (collections: ThemeCollection[]) => {
+  localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+};
+
+export const createCollection = (name: string, groupIds: string[] = []): ThemeCollection => ({
+  id: `c${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: name.trim(),
+  groupIds,
+});
+
+/**
+ * Adds the group to the collection, or removes it when it is already there
+ */
+export const toggleInCollection = (collections: ThemeCollection[], collectionId: string, groupId: string): ThemeCollection[] =>
+  collections.map(c => {
+    if (c.id !== collectionId) return c;
+    const groupIds = c.groupIds.includes(groupId) ? c.groupIds.filter(id => id !== groupId) : [...c.groupIds, groupId];
+    return { ...c, groupIds };
+  });
+
+/**
+ * Serializes collections for download
+ */
+export const exportCollections = (collections: ThemeCollection[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, collections }, null, 2);
+
+/**
+ * Reads an exported file; throws when it isn't one
+ */
+export const parseCollectionsFile = (text: string): ThemeCollection[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('The file is not valid JSON');
+  }
+  const list = Array.isArray(data) ? data : data?.collections;
+  if (!Array.isArray(list) || !list.every(isCollection)) {
+    throw new Error('The file does not contain theme collections');
+  }
+  return list;
+};
+
+/**
+ * Merges imported collections into the existing ones. Collections with the same id
+ * or name gain the imported themes; the rest are added as new collections.
+ */
+export const mergeCollections = (existing: ThemeCollection[], imported: ThemeCollection[]): ThemeCollection[] => {
+  const result = [...existing];
+  imported.forEach(collection => {
+    const idx = result.findIndex(c => c.id === collection.id || c.name.toLowerCase() === collection.name.toLowerCase());
+    if (idx === -1) {
+      result.push({ ...collection, groupIds: [...new Set(collection.groupIds)] });
+      return;
+    }
+    result[idx] = { ...result[idx], groupIds: [...new Set([...result[idx].groupIds, ...collection.groupIds])] };
+  });
+  return result;
+};
+
+/**
+ * Link that opens a read-only copy of the collection, e.g. /collection?name=Slides&ids=a/b,c/d
+ */
+export const collectionSharePath = (collection: ThemeCollection): string => {
+  // Slashes are fine in a query string and keep "owner/repo" ids readable
+  const ids = collection.groupIds.map(id => encodeURIComponent(id).replace(/%2F/g, '/')).join(',');
+  return `/collection?name=${encodeURIComponent(collection.name)}&ids=${ids}`;
+};
+
+/**
+ * Reads a shared collection from the query string of a share link; the name may be empty
+ */
+export const readSharedCollection = (params: URLSearchParams): { name: string; groupIds: string[] } => ({
+  name: params.get('name') || '',
+  groupIds: (params.get('ids') || '').split(',').filter(Boolean),
+});
@@ -0,0 +1,238 @@
+import { ThemeItem, ThemeGroup, ThemeDataset } from '../types';
+import { fetchThemesFromStatic, fetchThemeList, fetchThemeDetails } from './githubService';
+import { fetchForgeStats } from './forgeStats';
+import { groupThemes } from '../utils/themeGroups';
+import { groupRepoRef, hasRepository } from '../utils/repoRef';
+import { validateThemeGroups } from '../utils/validateDataset';
+import { readThemeDataset, writeThemeDataset } from './cache';
+
+const BATCH_SIZE = 5;
+const DELAY_MS = 1000; // Delay between batches to be nice to API
+const OFFICIAL_DATA_URL = 'https://raw.githubusercontent.com/caolib/cdn/main/json/themes.json';
+const TYPORA_SOURCE_ID = 'theme.typora.io';
+
+export interface ThemeDataSource {
+  id: string; // Shown on cards so users can tell where an entry came from
+  load: (onProgress?: (groups: ThemeGroup[]) => void) => Promise<ThemeDataset>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Relative URLs such as /themes.json have no hostname, so they name themselves
+const urlSourceId = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+/**
+ * A pre-built themes.json, e.g. the official CDN file or an internal mirror
+ */
+export const createStaticSource = (url: string, id = urlSourceId(url)): ThemeDataSource => ({
+  id,
+  load: () => fetchThemesFromStatic(url),
+});
+
+/**
+ * A JSON file served alongside the app. It may hold ThemeGroup[] or a plain ThemeItem[] list.
+ */
+export const createLocalFileSource = (path: string, id = 'local'): ThemeDataSource => ({
+  id,
+  load: async () => {
+    const response = await fetch(path);
+    if (!response.ok) {
+      throw new Error(`Failed to load local themes file ${path}: ${response.status}`);
+    }
+    const data: Array<ThemeGroup | ThemeItem> = await response.json();
+    const groups = data.every(entry => 'themes' in entry)
+      ? data as ThemeGroup[]
+      : groupThemes(data as ThemeItem[]).map(g => ({ ...g, loadingStats: false }));
+    return { groups, generatedAt: Date.now() };
+  },
+});
+
+/**
+ * Builds groups from the live Typora repo listing, then fills in stats.
+ * Both phases run in small batches with a pause in between to stay within API limits.
+ */
+export const createTyporaRepoSource = (id = TYPORA_SOURCE_ID): ThemeDataSource => ({
+  id,
+  load: async (onProgress) => {
+    const files = await fetchThemeList();
+    const themes: ThemeItem[] = [];
+
+    for (let i = 0; i < files.length; i += BATCH_SIZE) {
+      const results = await Promise.allSettled(files.slice(i, i + BATCH_SIZE).map(fetchThemeDetails));
+      results.forEach(result => {
+        if (result.status === 'fulfilled') {
+          themes.push(result.value);
+        } else {
+          console.warn("Failed to load theme details", result.reason);
+        }
+      });
+
+      // Show what we have so far
+      onProgress?.(groupThemes(themes));
+      if (i + BATCH_SIZE < files.length) await sleep(DELAY_MS);
+    }
+
+    let groups = groupThemes(themes).map(g =>
+      hasRepository(groupRepoRef(g)) ? g : { ...g, loadingStats: false }
+    );
+    onProgress?.(groups);
+
+    const pending = groups.filter(g => g.loadingStats);
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      const batch = pending.slice(i, i + BATCH_SIZE);
+      const results = await Promise.all(batch.map(g => fetchForgeStats(groupRepoRef(g))));
+      const statsById = new Map(batch.map((g, idx) => [g.id, results[idx]]));
+      const rateLimited = results.some(r => r.isRateLimit);
+
+      groups = groups.map(g => {
+        const stats = statsById.get(g.id);
+        if (stats) return { ...g, stats, loadingStats: false };
+        // No point in waiting for the rest once GitHub starts refusing requests
+        if (rateLimited) return { ...g, loadingStats: false };
+        return g;
+      });
+      onProgress?.(groups);
+
+      if (rateLimited) break;
+      if (i + BATCH_SIZE < pending.length) await sleep(DELAY_MS);
+    }
+
+    return { groups, generatedAt: Date.now() };
+  },
+});
+
+/**
+ * Reads the source list from VITE_THEME_SOURCES, a comma-separated list of
+ * `static:<url>`, `local:<path>` and `typora` entries. Defaults to the official static file.
+ */
+export const getConfiguredSources = (): ThemeDataSource[] => {
+  const config = (import.meta.env?.VITE_THEME_SOURCES || '').trim();
+  if (!config) return [createStaticSource(OFFICIAL_DATA_URL)];
+
+  return config.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    const type = separator === -1 ? entry : entry.slice(0, separator);
+    const value = separator === -1 ? '' : entry.slice(separator + 1);
+
+    switch (type) {
+      case 'static':
+        return createStaticSource(value || OFFICIAL_DATA_URL);
+      case 'local':
+        return createLocalFileSource(value || '/themes.local.json');
+      case 'typora':
+        return createTyporaRepoSource();
+      default:
+        throw new Error(`Unknown theme source "${entry}" in VITE_THEME_SOURCES`);
+    }
+  });
+};
+
+/**
+ * Merges datasets in priority order. Groups with the same id are combined,
+ * keeping the earlier source's data and adding variants it doesn't have.
+ */
+export const mergeDatasets = (datasets: Array<{ source: string; dataset: ThemeDataset }>): ThemeDataset => {
+  const merged = new Map<string, ThemeGroup>();
+
+  datasets.forEach(({ source, dataset }) => {
+    dataset.groups.forEach(group => {
+      const existing = merged.get(group.id);
+      if (!existing) {
+        merged.set(group.id, { ...group, source, themes: group.themes.map(t => ({ ...t, source })) });
+        return;
+      }
+      const knownIds = new Set(existing.themes.map(t => t.id));
+      const extra = group.themes.filter(t => !knownIds.has(t.id)).map(t => ({ ...t, source }));
+      if (extra.length > 0) {
+        merged.set(group.id, { ...existing, themes: [...existing.themes, ...extra] });
+      }
+    });
+  });
+
+  // The dataset is only as fresh as its oldest part
+  const generatedAt = Math.min(...datasets.map(d => d.dataset.generatedAt));
+  const issues = datasets.flatMap(d => d.dataset.issues || []);
+  return { groups: [...merged.values()], generatedAt, issues };
+};
+
+/**
+ * Validates a source's dataset, attributing the problems found to that source
+ */
+const validateDataset = (dataset: ThemeDataset, source: string): ThemeDataset => {
+  const { groups, issues } = validateThemeGroups(dataset.groups, source);
+  return { ...dataset, groups, issues };
+};
+
+interface LoadOptions {
+  allowFallback?: boolean; // Use the live Typora repo when every configured source fails
+  onProgress?: (groups: ThemeGroup[]) => void;
+}
+
+/**
+ * Loads and merges all configured sources
+ */
+export const loadThemeDataset = async ({ allowFallback = true, onProgress }: LoadOptions = {}): Promise<ThemeDataset> => {
+  const sources = getConfiguredSources();
+  const partials: Array<ThemeGroup[] | null> = sources.map(() => null);
+
+  const report = () => {
+    if (!onProgress) return;
+    const available = partials
+      .map((groups, idx) => groups && { source: sources[idx].id, dataset: { groups, generatedAt: Date.now() } })
+      .filter((entry): entry is { source: string; dataset: ThemeDataset } => !!entry);
+    onProgress(mergeDatasets(available).groups);
+  };
+
+  const results = await Promise.allSettled(sources.map((source, idx) =>
+    source.load(groups => {
+      partials[idx] = groups;
+      report();
+    }).then(dataset => validateDataset(dataset, source.id))
+  ));
+
+  const loaded: Array<{ source: string; dataset: ThemeDataset }> = [];
+  results.forEach((result, idx) => {
+    if (result.status === 'fulfilled') {
+      loaded.push({ source: sources[idx].id, dataset: result.value });
+    } else {
+      console.warn(`Theme source "${sources[idx].id}" failed`, result.reason);
+    }
+  });
+
+  if (loaded.length > 0) return mergeDatasets(loaded);
+
+  const firstError = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')?.reason;
+  if (!allowFallback || sources.some(s => s.id === TYPORA_SOURCE_ID)) {
+    throw firstError;
+  }
+
+  console.warn("All theme sources failed, falling back to GitHub API");
+  const fallback = createTyporaRepoSource();
+  const tagSource = (groups: ThemeGroup[]) =>
+    mergeDatasets([{ source: fallback.id, dataset: { groups, generatedAt: Date.now() } }]).groups;
+
+  const dataset = validateDataset(
+    await fallback.load(onProgress && (groups => onProgress(tagSource(groups)))),
+    fallback.id
+  );
+  return { ...dataset, groups: tagSource(dataset.groups) };
+};
+
+/**
+ * Returns the cached dataset, even if stale, or loads it when nothing is cached.
+ * For pages other than the gallery, which takes care of revalidation and the slow live-API fallback.
+ */
+export const getThemeDataset = async (): Promise<ThemeDataset> => {
+  const cached = await readThemeDataset();
+  if (cached) return cached.data;
+
+  const dataset = await loadThemeDataset({ allowFallback: false });
+  await writeThemeDataset(dataset);
+  return dataset;
+};
@@ -0,0 +1,110 @@
+import { RepoStats } from '../types';
+import { RepoRef } from '../utils/repoRef';
+import { fetchRepoStats } from './githubService';
+import { conditionalFetch } from './http';
+
+// The fields read from each forge's repository API response
+interface GitLabProject {
+  star_count: number;
+  last_activity_at: string;
+  license?: { nickname?: string | null; name?: string | null } | null;
+  open_issues_count?: number;
+  description?: string | null;
+}
+
+interface GiteeRepo {
+  stargazers_count: number;
+  pushed_at?: string | null;
+  updated_at: string;
+  license?: string | null;
+  open_issues_count?: number;
+  description?: string | null;
+}
+
+interface GiteaRepo {
+  stars_count: number;
+  updated_at: string;
+  licenses?: string[] | null;
+  open_issues_count?: number;
+  description?: string | null;
+}
+
+interface StatsEndpoint<T> {
+  url: (ref: RepoRef) => string;
+  map: (data: T) => RepoStats;
+}
+
+// Non-GitHub forges; GitHub goes through fetchRepoStats and the rate-limit scheduler
+const ENDPOINTS: {
+  gitlab: StatsEndpoint<GitLabProject>;
+  gitee: StatsEndpoint<GiteeRepo>;
+  codeberg: StatsEndpoint<GiteaRepo>;
+} = {
+  gitlab: {
+    url: ref => `https://gitlab.com/api/v4/projects/${encodeURIComponent(`${ref.owner}/${ref.repo}`)}?license=true`,
+    map: data => ({
+      stars: data.star_count,
+      lastCommitAt: data.last_activity_at,
+      license: data.license?.nickname || data.license?.name || undefined,
+      openIssues: data.open_issues_count,
+      description: data.description || undefined,
+      error: false
+    }),
+  },
+  gitee: {
+    url: ref => `https://gitee.com/api/v5/repos/${ref.owner}/${ref.repo}`,
+    map: data => ({
+      stars: data.stargazers_count,
+      lastCommitAt: data.pushed_at || data.updated_at,
+      license: data.license || undefined,
+      openIssues: data.open_issues_count,
+      description: data.description || undefined,
+      error: false
+    }),
+  },
+  // Gitea API
+  codeberg: {
+    url: ref => `https://codeberg.org/api/v1/repos/${ref.owner}/${ref.repo}`,
+    map: data => ({
+      stars: data.stars_count,
+      lastCommitAt: data.updated_at,
+      license: data.licenses?.[0],
+      openIssues: data.open_issues_count,
+      description: data.description || undefined,
+      error: false
+    }),
+  },
+};
+
+/**
+ * Fetches live stats for a repository on any supported forge
+ */
+export const fetchForgeStats = async (ref: RepoRef, token?: string): Promise<RepoStats> => {
+  if (ref.forge === 'github') {
+    return fetchRepoStats(ref.owner, ref.repo, token);
+  }
+  if (ref.forge === 'unknown') {
+    return { stars: 0, lastCommitAt: '', isNotFound: true, error: false };
+  }
+
+  const endpoint = ENDPOINTS[ref.forge];
+  try {
+    const response = await conditionalFetch(endpoint.url(ref), { headers: { 'Accept': 'application/json' } });
+
+    if (response.status === 403 || response.status === 429) {
+      return { stars: 0, lastCommitAt: '', error: true, isRateLimit: true };
+    }
+
+    if (response.status === 404) {
+      return { stars: 0, lastCommitAt: '', isNotFound: true, error: false };
+    }
+
+    if (!response.ok) {
+      return { stars: 0, lastCommitAt: '', error: true };
+    }
+
+    return endpoint.map(await response.json());
+  } catch (error) {
+    return { stars: 0, lastCommitAt: '', error: true };
+  }
+};
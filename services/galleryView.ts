@@ -0,0 +1,26 @@
+// How far the user got in the gallery, so coming back from a theme page picks up where they left off
+export interface GalleryView {
+  visibleCount: number;
+  scrollY: number;
+  activeThemes: Record<string, string>; // Variant showing on each card, by group id
+}
+
+const MAX_VIEWS = 20; // Gallery URLs remembered per tab
+
+// Kept in memory per gallery URL (its query string); a reload starts from the top like any fresh page
+const views = new Map<string, GalleryView>();
+
+/**
+ * Returns the view saved for a gallery URL, creating one the first time.
+ * A new view can start from the variants of the previous one, since changing filters keeps the cards' variants.
+ */
+export const getGalleryView = (search: string, initialCount: number, previous?: GalleryView): GalleryView => {
+  let view = views.get(search);
+  if (!view) {
+    view = { visibleCount: initialCount, scrollY: 0, activeThemes: { ...previous?.activeThemes } };
+    views.set(search, view);
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (views.size > MAX_VIEWS) views.delete(views.keys().next().value!);
+  }
+  return view;
+};
@@ -1,109 +1,75 @@
-import { ThemeItem, RepoStats, GitHubContentFile, ThemeFrontmatter, ThemeGroup } from '../types';
+import { ThemeItem, RepoStats, GitHubContentFile, ThemeGroup, ThemeDataset } from '../types';
+import { parseFrontmatter } from '../utils/frontmatter';
+import { parseRepoUrl } from '../utils/repoRef';
+import { conditionalFetch } from './http';
+import { RateLimitDeferredError, scheduleRequest } from './scheduler';
+import { getToken } from './token';
 
 const TYPORA_REPO_API = 'https://api.github.com/repos/typora/theme.typora.io/contents/_posts/theme?ref=gh-pages';
 const THUMBNAIL_BASE_URL = 'https://raw.githubusercontent.com/typora/theme.typora.io/gh-pages/media/thumbnails/';
-const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---/;
-
-const DATA_CACHE_KEY = 'themes_json_cache';
-const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
 
 /**
- * Validates if the static data is stale (optionally used later)
+ * Fetches a pre-built themes dataset, such as the one published to the external CDN repository
  */
-export const fetchThemesFromStatic = async (force: boolean = false): Promise<ThemeGroup[]> => {
+export const fetchThemesFromStatic = async (url: string): Promise<ThemeDataset> => {
   try {
-    if (!force) {
-      const cached = localStorage.getItem(DATA_CACHE_KEY);
-      if (cached) {
-        const { timestamp, data } = JSON.parse(cached);
-        if (Date.now() - timestamp < CACHE_DURATION) {
-          return data;
-        }
-      }
-    }
-
-    // Fetch from external CDN repository
-    const DATA_URL = 'https://raw.githubusercontent.com/caolib/cdn/main/json/themes.json';
-    const response = await fetch(DATA_URL); // Removed timestamp to allow browser caching if applicable
+    const response = await conditionalFetch(url);
     if (!response.ok) {
       throw new Error('Failed to load static themes data');
     }
-    const data = await response.json();
+    const groups: ThemeGroup[] = await response.json();
 
-    // Update cache
-    localStorage.setItem(DATA_CACHE_KEY, JSON.stringify({
-      timestamp: Date.now(),
-      data
-    }));
+    // The file carries no timestamp of its own; Last-Modified is the closest we get
+    const lastModified = response.headers.get('Last-Modified');
+    const generatedAt = lastModified ? new Date(lastModified).getTime() : Date.now();
 
-    return data;
+    return { groups, generatedAt: Number.isNaN(generatedAt) ? Date.now() : generatedAt };
   } catch (error) {
-    console.error("Static fetch failed, falling back to API is possible but not implemented fully here.", error);
+    console.error("Static fetch failed", error);
     throw error;
   }
 };
 
 /**
- * Extracts key-value pairs from YAML-like frontmatter string
+ * Builds GitHub API headers, falling back to the token saved in the settings panel
  */
-const parseFrontmatter = (text: string): ThemeFrontmatter => {
-  const match = text.match(FRONTMATTER_REGEX);
-  const data: any = {};
-
-  if (match && match[1]) {
-    const lines = match[1].split('\n');
-    lines.forEach(line => {
-      const parts = line.split(':');
-      if (parts.length >= 2) {
-        const key = parts[0].trim();
-        let value = parts.slice(1).join(':').trim();
-        if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
-          value = value.slice(1, -1);
-        }
-        data[key] = value;
-      }
-    });
+const githubHeaders = (token?: string): HeadersInit => {
+  const headers: HeadersInit = {
+    'Accept': 'application/vnd.github.v3+json'
+  };
+
+  const authToken = token || getToken();
+  if (authToken) {
+    headers['Authorization'] = `token ${authToken}`;
   }
-  return data as ThemeFrontmatter;
+  return headers;
 };
 
 /**
- * Extracts owner and repo name from a GitHub URL
+ * Checks a token against the rate limit endpoint (which doesn't count against the quota).
+ * Returns null when GitHub rejects the token.
  */
-export const getRepoInfoFromUrl = (url?: string): { owner: string; repo: string } | null => {
-  if (!url) return null;
-  try {
-    let cleanUrl = url.trim();
-    if (cleanUrl.endsWith('.git')) cleanUrl = cleanUrl.slice(0, -4);
-    if (cleanUrl.endsWith('/')) cleanUrl = cleanUrl.slice(0, -1);
-
-    const urlObj = new URL(cleanUrl);
-    if (urlObj.hostname !== 'github.com' && urlObj.hostname !== 'www.github.com') return null;
-
-    const segments = urlObj.pathname.split('/').filter(Boolean);
-    if (segments.length >= 2) {
-      return { owner: segments[0], repo: segments[1] };
-    }
-  } catch (e) {
-    return null;
+export const fetchRateLimit = async (token: string): Promise<{ limit: number; remaining: number; reset: number } | null> => {
+  const response = await fetch('https://api.github.com/rate_limit', { headers: githubHeaders(token) });
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to check token: ${response.status} ${response.statusText}`);
   }
-  return null;
+
+  const { resources } = await response.json();
+  return {
+    limit: resources.core.limit,
+    remaining: resources.core.remaining,
+    reset: resources.core.reset * 1000,
+  };
 };
 
 /**
  * Fetches the list of Markdown files from the Typora theme repo
  */
 export const fetchThemeList = async (token?: string): Promise<GitHubContentFile[]> => {
-  const headers: HeadersInit = {
-    'Accept': 'application/vnd.github.v3+json'
-  };
-
-  if (token) {
-    headers['Authorization'] = `token ${token}`;
-  }
-
-  const url = `${TYPORA_REPO_API}&t=${Date.now()}`;
-  const response = await fetch(url, { headers });
+  const headers = githubHeaders(token);
+  const response = await scheduleRequest(() => conditionalFetch(TYPORA_REPO_API, { headers }));
 
   if (!response.ok) {
     if (response.status === 403 || response.status === 429) {
@@ -117,17 +83,15 @@ export const fetchThemeList = async (token?: string): Promise<GitHubContentFile[
 };
 
 /**
- * Fetches the raw content of a markdown file and parses it
+ * Builds a ThemeItem from the raw Markdown of a theme post
  */
-export const fetchThemeDetails = async (file: GitHubContentFile): Promise<ThemeItem> => {
-  const response = await fetch(file.download_url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch file content for ${file.name}`);
+export const buildThemeItem = (fileName: string, text: string): ThemeItem => {
+  const { data: frontmatter, warnings } = parseFrontmatter(text);
+  if (warnings.length > 0) {
+    console.warn(`Frontmatter issues in ${fileName}:`, warnings);
   }
-  const text = await response.text();
-  const frontmatter = parseFrontmatter(text);
 
-  const repoInfo = getRepoInfoFromUrl(frontmatter.homepage);
+  const repoRef = parseRepoUrl(frontmatter.homepage);
 
   let thumbnail = frontmatter.thumbnail;
   if (thumbnail && !thumbnail.startsWith('http')) {
@@ -137,29 +101,50 @@ export const fetchThemeDetails = async (file: GitHubContentFile): Promise<ThemeI
 
   return {
     ...frontmatter,
-    id: file.name,
-    fileName: file.name,
-    title: frontmatter.title || file.name.replace(/\.md$/i, ''),
+    id: fileName,
+    fileName,
+    title: frontmatter.title || fileName.replace(/\.md$/i, ''),
     thumbnail,
-    repoOwner: repoInfo?.owner,
-    repoName: repoInfo?.repo,
+    repoHost: repoRef?.host,
+    repoOwner: repoRef?.owner,
+    repoName: repoRef?.repo,
   };
 };
 
+/**
+ * Fetches the raw content of a markdown file and parses it
+ */
+export const fetchThemeDetails = async (file: GitHubContentFile): Promise<ThemeItem> => {
+  const response = await conditionalFetch(file.download_url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch file content for ${file.name}`);
+  }
+  const text = await response.text();
+  return buildThemeItem(file.name, text);
+};
+
+// The fields read from GitHub's repository API response
+interface GitHubRepo {
+  stargazers_count: number;
+  pushed_at?: string | null;
+  updated_at: string;
+  license?: { spdx_id?: string | null; name?: string | null } | null;
+  open_issues_count?: number;
+  description?: string | null;
+  default_branch?: string;
+}
+
+// Stats are optional decoration; rather than hold cards until the quota resets, report the rate limit
+const STATS_MAX_WAIT_MS = 30 * 1000;
+
 /**
  * Fetches live stats for a specific repository
  */
 export const fetchRepoStats = async (owner: string, repo: string, token?: string): Promise<RepoStats> => {
   try {
-    const headers: HeadersInit = {
-      'Accept': 'application/vnd.github.v3+json'
-    };
-
-    if (token) {
-      headers['Authorization'] = `token ${token}`;
-    }
-
-    const response = await fetch(`https://api.github.com/repos/${owner}/${repo}?t=${Date.now()}`, { headers });
+    const headers = githubHeaders(token);
+    const url = `https://api.github.com/repos/${owner}/${repo}`;
+    const response = await scheduleRequest(() => conditionalFetch(url, { headers }), STATS_MAX_WAIT_MS);
 
     if (response.status === 403 || response.status === 429) {
       return { stars: 0, lastCommitAt: '', error: true, isRateLimit: true };
@@ -173,16 +158,35 @@ export const fetchRepoStats = async (owner: string, repo: string, token?: string
       return { stars: 0, lastCommitAt: '', error: true };
     }
 
-    const data = await response.json();
+    const data: GitHubRepo = await response.json();
     return {
       stars: data.stargazers_count,
       lastCommitAt: data.pushed_at || data.updated_at,
-      license: data.license?.spdx_id || data.license?.name,
+      license: data.license?.spdx_id || data.license?.name || undefined,
       openIssues: data.open_issues_count,
-      description: data.description,
+      description: data.description || undefined,
+      defaultBranch: data.default_branch,
       error: false
     };
   } catch (error) {
-    return { stars: 0, lastCommitAt: '', error: true };
+    return { stars: 0, lastCommitAt: '', error: true, isRateLimit: error instanceof RateLimitDeferredError };
+  }
+};
+
+/**
+ * Lists every file path in a repository branch
+ */
+export const fetchRepoTree = async (owner: string, repo: string, branch: string, token?: string): Promise<string[]> => {
+  const headers = githubHeaders(token);
+  const url = `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branch)}?recursive=1`;
+  const response = await scheduleRequest(() => conditionalFetch(url, { headers }));
+
+  if (!response.ok) {
+    throw new Error(`Failed to list files of ${owner}/${repo}: ${response.status} ${response.statusText}`);
   }
+
+  const data = await response.json();
+  return (data.tree || [])
+    .filter((entry: any) => entry.type === 'blob')
+    .map((entry: any) => entry.path as string);
 };
@@ -0,0 +1,61 @@
+import { readCache, writeCache } from './cache';
+
+interface StoredResponse {
+  etag?: string;
+  lastModified?: string;
+  headers: [string, string][];
+  body: string;
+}
+
+// Headers describing the stored body, which no longer apply once it is replayed
+const STALE_HEADERS = ['content-length', 'content-encoding'];
+
+const cacheKey = (url: string) => `http:${url}`;
+
+/**
+ * Fetches a URL with the validators from its last successful response.
+ * A 304 reply is turned into a 200 response carrying the cached body, so callers don't need to care.
+ */
+export const conditionalFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const cached = (await readCache<StoredResponse>(cacheKey(url)))?.data;
+
+  let response: Response;
+  if (cached) {
+    const headers = new Headers(init.headers);
+    if (cached.etag) headers.set('If-None-Match', cached.etag);
+    if (cached.lastModified) headers.set('If-Modified-Since', cached.lastModified);
+    try {
+      // Bypass the browser cache so the 304 reaches us instead of being resolved internally
+      response = await fetch(url, { ...init, headers, cache: 'no-store' });
+    } catch (error) {
+      // Some hosts reject the CORS preflight caused by validator headers; retry as a simple request
+      response = await fetch(url, init);
+    }
+  } else {
+    response = await fetch(url, init);
+  }
+
+  if (response.status === 304 && cached) {
+    const headers = new Headers(cached.headers);
+    STALE_HEADERS.forEach(name => headers.delete(name));
+    // Keep fresh values such as the rate-limit counters from the 304 itself
+    response.headers.forEach((value, name) => {
+      if (!STALE_HEADERS.includes(name)) headers.set(name, value);
+    });
+    return new Response(cached.body, { status: 200, statusText: 'OK', headers });
+  }
+
+  const etag = response.headers.get('ETag') || undefined;
+  const lastModified = response.headers.get('Last-Modified') || undefined;
+  if (response.ok && (etag || lastModified)) {
+    const body = await response.clone().text();
+    await writeCache<StoredResponse>(cacheKey(url), {
+      etag,
+      lastModified,
+      headers: [...response.headers.entries()],
+      body,
+    });
+  }
+
+  return response;
+};
@@ -0,0 +1,104 @@
+import { ThemeGroup, ThemeItem } from '../types';
+import { groupRepoRef } from '../utils/repoRef';
+import { fetchGroupFiles, pickThemeCss, repoFileUrl, RepoFiles } from './themeCss';
+
+export interface PackageFile {
+  path: string;    // Path inside the repository
+  zipPath: string; // Path inside the bundle, relative to Typora's themes folder
+}
+
+const MAX_PACKAGE_FILES = 300;
+
+const INSTALL_README = (themeTitle: string, cssName: string) => `${themeTitle} for Typora
+${'='.repeat(themeTitle.length + 11)}
+
+Copy ${cssName} and the folder next to it (if any) into Typora's theme folder,
+restart Typora, then pick the theme from the Themes menu.
+
+The quickest way to find the folder on any system:
+  Preferences → Appearance → Open Theme Folder
+
+Windows
+  %AppData%\\Typora\\themes
+  (usually C:\\Users\\<you>\\AppData\\Roaming\\Typora\\themes)
+
+macOS
+  ~/Library/Application Support/abnerworks.Typora/themes
+  (in Finder: Go → Go to Folder…, then paste the path)
+
+Linux
+  ~/.config/Typora/themes
+`;
+
+/**
+ * Picks the files Typora needs for a theme: the stylesheet plus the companion
+ * folder named after it (fonts, images), which sits next to it by convention
+ */
+export const findPackageFiles = (paths: string[], cssPath: string): PackageFile[] => {
+  const slash = cssPath.lastIndexOf('/');
+  const dir = slash >= 0 ? cssPath.slice(0, slash + 1) : '';
+  const cssName = cssPath.slice(dir.length);
+  const assetDir = `${dir}${cssName.replace(/\.css$/i, '')}/`.toLowerCase();
+
+  return [
+    { path: cssPath, zipPath: cssName },
+    ...paths
+      .filter(path => path.toLowerCase().startsWith(assetDir))
+      .map(path => ({ path, zipPath: path.slice(dir.length) })),
+  ];
+};
+
+// Plain fetch: the conditional-request cache stores bodies as text, which would mangle fonts and images
+const fetchFile = async (group: ThemeGroup, files: RepoFiles, path: string): Promise<ArrayBuffer> => {
+  const response = await fetch(repoFileUrl(group, files.branch, path));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
+  }
+  return response.arrayBuffer();
+};
+
+/**
+ * Packages are built from the GitHub tree API, so only groups with a GitHub repository get one
+ */
+export const canBuildInstallPackage = (group: ThemeGroup): boolean => groupRepoRef(group).forge === 'github';
+
+/**
+ * Builds a zip that can be extracted straight into Typora's theme folder
+ */
+export const buildInstallPackage = async (group: ThemeGroup, theme: ThemeItem): Promise<{ blob: Blob; fileName: string }> => {
+  const files = await fetchGroupFiles(group);
+  const cssPath = pickThemeCss(files.paths, theme);
+  if (!cssPath) {
+    throw new Error('No CSS file found in the repository');
+  }
+
+  const packageFiles = findPackageFiles(files.paths, cssPath);
+  if (packageFiles.length > MAX_PACKAGE_FILES) {
+    throw new Error(`The theme folder has too many files (${packageFiles.length}) to bundle`);
+  }
+
+  // Only loaded when someone actually asks for a package
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const contents = await Promise.all(packageFiles.map(file => fetchFile(group, files, file.path)));
+  packageFiles.forEach((file, i) => zip.file(file.zipPath, contents[i]));
+  zip.file('README.txt', INSTALL_README(theme.title, packageFiles[0].zipPath));
+
+  return {
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    fileName: `${packageFiles[0].zipPath.replace(/\.css$/i, '')}.zip`,
+  };
+};
+
+/**
+ * Builds the install package and hands it to the browser as a download
+ */
+export const downloadInstallPackage = async (group: ThemeGroup, theme: ThemeItem): Promise<void> => {
+  const { blob, fileName } = await buildInstallPackage(group, theme);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
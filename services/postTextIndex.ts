@@ -0,0 +1,35 @@
+import { PostTextIndex } from '../types';
+import { conditionalFetch } from './http';
+
+let indexPromise: Promise<PostTextIndex | null> | null = null;
+
+/**
+ * Fetches the full-text index written by `pnpm generate --text`, once per session.
+ * Its URL comes from VITE_POST_TEXT_INDEX; the official data has no index, so nothing is fetched when it is unset.
+ * Resolves to null when there is no index, in which case search only covers frontmatter fields.
+ */
+export const loadPostTextIndex = (): Promise<PostTextIndex | null> => {
+  if (!indexPromise) {
+    const url = (import.meta.env?.VITE_POST_TEXT_INDEX || '').trim();
+    if (!url) {
+      indexPromise = Promise.resolve(null);
+      return indexPromise;
+    }
+    indexPromise = conditionalFetch(url)
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`Failed to load post text index ${url}: ${response.status}`);
+        }
+        const data = await response.json();
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+          throw new Error(`Post text index ${url} is not an object`);
+        }
+        return data as PostTextIndex;
+      })
+      .catch(error => {
+        console.warn("Full-text search unavailable", error);
+        return null;
+      });
+  }
+  return indexPromise;
+};
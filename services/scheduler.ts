@@ -0,0 +1,138 @@
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  reset: number | null; // When the quota refills (ms timestamp)
+  waiting: boolean;     // Requests are on hold until the reset
+}
+
+type Task = {
+  run: () => Promise<Response>;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+  deadline: number; // Latest time the request is willing to start
+};
+
+/**
+ * Rejects requests that would have to wait longer than they allow for the quota to refill
+ */
+export class RateLimitDeferredError extends Error {
+  constructor(public reset: number) {
+    super(`GitHub rate limit reached, requests resume at ${new Date(reset).toLocaleTimeString()}`);
+    this.name = 'RateLimitDeferredError';
+  }
+}
+
+const MIN_INTERVAL_MS = 100;  // Pacing between consecutive requests
+const QUOTA_RESERVE = 2;      // Hold back a few requests instead of running the quota dry
+const RESET_GRACE_MS = 1000;  // GitHub's reset time is rounded to the second
+
+const queue: Task[] = [];
+const listeners = new Set<(state: RateLimitState) => void>();
+let state: RateLimitState = { limit: null, remaining: null, reset: null, waiting: false };
+let running = false;
+let lastRequestAt = 0;
+let wakeUp: (() => void) | null = null;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const setState = (patch: Partial<RateLimitState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener(state));
+};
+
+const updateFromHeaders = (response: Response) => {
+  const limit = response.headers.get('X-RateLimit-Limit');
+  const remaining = response.headers.get('X-RateLimit-Remaining');
+  const reset = response.headers.get('X-RateLimit-Reset');
+  if (remaining === null) return;
+
+  setState({
+    limit: limit !== null ? Number(limit) : state.limit,
+    remaining: Number(remaining),
+    reset: reset !== null ? Number(reset) * 1000 : state.reset,
+  });
+};
+
+const isExhausted = () =>
+  state.remaining !== null && state.remaining <= QUOTA_RESERVE && state.reset !== null && state.reset > Date.now();
+
+const outlivesDeadline = (task: Task) => isExhausted() && task.deadline < state.reset! + RESET_GRACE_MS;
+
+const drain = async () => {
+  if (running) return;
+  running = true;
+
+  while (queue.length > 0) {
+    if (isExhausted()) {
+      // Requests that can't wait until the reset give up now instead of hanging
+      for (let i = queue.length - 1; i >= 0; i--) {
+        if (outlivesDeadline(queue[i])) queue.splice(i, 1)[0].reject(new RateLimitDeferredError(state.reset!));
+      }
+      if (queue.length === 0) continue;
+
+      setState({ waiting: true });
+      await new Promise<void>(resolve => {
+        wakeUp = resolve;
+        setTimeout(resolve, state.reset! - Date.now() + RESET_GRACE_MS);
+      });
+      wakeUp = null;
+      // Either the quota refilled or it was replaced (e.g. a token was added)
+      setState(state.reset !== null && state.reset <= Date.now()
+        ? { waiting: false, remaining: state.limit }
+        : { waiting: false });
+      continue;
+    }
+
+    const wait = lastRequestAt + MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+
+    const task = queue.shift()!;
+    lastRequestAt = Date.now();
+    try {
+      const response = await task.run();
+      updateFromHeaders(response);
+      task.resolve(response);
+    } catch (error) {
+      task.reject(error);
+    }
+  }
+
+  running = false;
+};
+
+/**
+ * Queues a GitHub API request. Requests run one at a time and are held while the quota is exhausted,
+ * unless that takes longer than maxWaitMs; they then fail with a RateLimitDeferredError.
+ */
+export const scheduleRequest = (run: () => Promise<Response>, maxWaitMs = Infinity): Promise<Response> => {
+  return new Promise((resolve, reject) => {
+    const task = { run, resolve, reject, deadline: Date.now() + maxWaitMs };
+    // The queue may already be on hold, in which case drain() won't look at new tasks until the reset
+    if (outlivesDeadline(task)) {
+      reject(new RateLimitDeferredError(state.reset!));
+      return;
+    }
+    queue.push(task);
+    drain();
+  });
+};
+
+/**
+ * Overrides the known quota, e.g. after checking a new token. Wakes up held requests if it allows them.
+ */
+export const updateRateLimit = (patch: Partial<Omit<RateLimitState, 'waiting'>>) => {
+  setState(patch);
+  if (wakeUp && !isExhausted()) wakeUp();
+};
+
+export const getRateLimit = (): RateLimitState => state;
+
+/**
+ * Subscribes to quota changes; returns the unsubscribe function
+ */
+export const subscribeRateLimit = (listener: (state: RateLimitState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
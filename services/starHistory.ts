@@ -0,0 +1,61 @@
+import { ThemeGroup } from '../types';
+import { readCache, writeCache } from './cache';
+
+const HISTORY_KEY = 'starHistory';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AGE = 365 * DAY_MS; // Older snapshots are dropped
+
+export interface StarSnapshot {
+  t: number; // ms timestamp
+  stars: number;
+}
+
+// Snapshots per group id, oldest first
+export type StarHistory = Record<string, StarSnapshot[]>;
+
+export const readStarHistory = async (): Promise<StarHistory> => {
+  return (await readCache<StarHistory>(HISTORY_KEY))?.data || {};
+};
+
+/**
+ * Adds the current star counts to the history, keeping at most one snapshot per group per day
+ */
+export const recordStarSnapshots = async (groups: ThemeGroup[], at = Date.now()): Promise<StarHistory> => {
+  const history = { ...(await readStarHistory()) };
+
+  groups.forEach(group => {
+    const stats = group.stats;
+    if (!stats || stats.error || stats.isNotFound) return;
+
+    const snapshots = (history[group.id] || []).filter(s => at - s.t < MAX_AGE);
+    const last = snapshots[snapshots.length - 1];
+    if (last && Math.floor(last.t / DAY_MS) === Math.floor(at / DAY_MS)) {
+      snapshots[snapshots.length - 1] = { t: at, stars: stats.stars };
+    } else {
+      snapshots.push({ t: at, stars: stats.stars });
+    }
+    history[group.id] = snapshots;
+  });
+
+  await writeCache(HISTORY_KEY, history);
+  return history;
+};
+
+/**
+ * Whether any group has snapshots from more than one day. Until then every group gains 0 stars
+ * and the trending sort has nothing to go on.
+ */
+export const hasStarTrends = (history: StarHistory): boolean =>
+  Object.values(history).some(snapshots => snapshots.length > 1);
+
+/**
+ * Stars gained within the last `days` days, measured from the last snapshot before the window
+ * (or the oldest one we have when history is shorter than the window)
+ */
+export const getStarsGained = (snapshots: StarSnapshot[] | undefined, currentStars: number, days: number, now = Date.now()): number => {
+  if (!snapshots || snapshots.length === 0) return 0;
+  const windowStart = now - days * DAY_MS;
+  const before = snapshots.filter(s => s.t <= windowStart);
+  const baseline = before.length > 0 ? before[before.length - 1] : snapshots[0];
+  return currentStars - baseline.stars;
+};
@@ -0,0 +1,128 @@
+import { ThemeGroup, ThemeItem, ThemePalette } from '../types';
+import { groupRepoRef } from '../utils/repoRef';
+import { analyzeThemeCss } from '../utils/cssPalette';
+import { fetchRepoStats, fetchRepoTree } from './githubService';
+import { conditionalFetch } from './http';
+
+export interface ThemeStylesheet {
+  path: string; // Path inside the repository
+  url: string;  // Served with a CSS content type, so relative fonts and images resolve
+}
+
+export interface RepoFiles {
+  branch: string;
+  paths: string[];
+}
+
+const IGNORED_DIRS = ['node_modules/', '.github/', 'docs/', 'example/', 'examples/'];
+
+// Repository listings are shared by all variants of a group
+const treeCache = new Map<string, Promise<RepoFiles>>();
+
+const IMPORT_RULE = /@import\s+(?:url\(\s*)?['"]?([^'")\s;]+)['"]?\s*\)?[^;]*;/g;
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9\u4e00-\u9fa5]/g, '');
+
+const baseName = (path: string) => path.split('/').pop()!.replace(/\.[^.]+$/, '');
+
+/**
+ * Lists the files of a group's repository on its default branch
+ */
+export const fetchGroupFiles = (group: ThemeGroup, token?: string): Promise<RepoFiles> => {
+  const ref = groupRepoRef(group);
+  if (ref.forge === 'unknown') {
+    return Promise.reject(new Error('This theme has no repository'));
+  }
+  if (ref.forge !== 'github') {
+    return Promise.reject(new Error('Only repositories on GitHub can be previewed'));
+  }
+
+  let files = treeCache.get(group.id);
+  if (!files) {
+    files = (async () => {
+      const branch = group.stats?.defaultBranch || (await fetchRepoStats(ref.owner, ref.repo, token)).defaultBranch || 'master';
+      return { branch, paths: await fetchRepoTree(ref.owner, ref.repo, branch, token) };
+    })();
+    // Let a failed listing be retried later
+    files.catch(() => treeCache.delete(group.id));
+    treeCache.set(group.id, files);
+  }
+  return files;
+};
+
+/**
+ * URL of a repository file on jsDelivr, which serves proper content types (raw.githubusercontent doesn't)
+ */
+export const repoFileUrl = (group: ThemeGroup, branch: string, path: string): string => {
+  const ref = groupRepoRef(group);
+  return `https://cdn.jsdelivr.net/gh/${ref.owner}/${ref.repo}@${branch}/${path.split('/').map(encodeURIComponent).join('/')}`;
+};
+
+/**
+ * Picks the CSS file most likely to belong to a variant: an exact name match first,
+ * then a partial one, preferring files near the repository root
+ */
+export const pickThemeCss = (paths: string[], theme: ThemeItem): string | null => {
+  const wanted = [normalize(theme.title), normalize(theme.fileName.replace(/^\d+-\d+-\d+-/, '').replace(/\.md$/i, ''))].filter(Boolean);
+
+  const scored = paths
+    .filter(path => path.toLowerCase().endsWith('.css'))
+    .filter(path => !IGNORED_DIRS.some(dir => path.toLowerCase().includes(dir)))
+    .map(path => {
+      const name = normalize(baseName(path));
+      let score = 0;
+      if (wanted.includes(name)) score += 100;
+      else if (name && wanted.some(w => w.includes(name) || name.includes(w))) score += 50;
+      score -= path.split('/').length; // Shallower is better
+      if (/(^|\/)themes?\//i.test(path)) score += 5;
+      return { path, score };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return scored[0]?.path || null;
+};
+
+/**
+ * Finds the stylesheet of a theme variant in its repository
+ */
+export const findThemeStylesheet = async (group: ThemeGroup, theme: ThemeItem): Promise<ThemeStylesheet | null> => {
+  const { branch, paths } = await fetchGroupFiles(group);
+  const path = pickThemeCss(paths, theme);
+  return path ? { path, url: repoFileUrl(group, branch, path) } : null;
+};
+
+const resolvePath = (from: string, target: string): string => {
+  const segments = from.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') segments.pop();
+    else if (part && part !== '.') segments.push(part);
+  });
+  return segments.join('/');
+};
+
+/**
+ * Fetches a stylesheet's text with its relative @imports inlined, one level deep
+ */
+const fetchCssText = async (group: ThemeGroup, files: RepoFiles, path: string, depth = 0): Promise<string> => {
+  const response = await conditionalFetch(repoFileUrl(group, files.branch, path));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
+  }
+  const css = await response.text();
+  if (depth > 0) return css;
+
+  const imports = [...css.matchAll(IMPORT_RULE)]
+    .map(match => resolvePath(path, match[1]))
+    .filter(imported => files.paths.includes(imported));
+  const importedCss = await Promise.all(imports.map(imported => fetchCssText(group, files, imported, depth + 1).catch(() => '')));
+  return [...importedCss, css].join('\n');
+};
+
+/**
+ * Analyzes the colors and fonts of a theme variant's stylesheet
+ */
+export const fetchThemePalette = async (group: ThemeGroup, theme: ThemeItem, token?: string): Promise<ThemePalette | null> => {
+  const files = await fetchGroupFiles(group, token);
+  const path = pickThemeCss(files.paths, theme);
+  return path ? analyzeThemeCss(await fetchCssText(group, files, path)) : null;
+};
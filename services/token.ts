@@ -0,0 +1,25 @@
+const TOKEN_KEY = 'github_token';
+
+/**
+ * Returns the stored GitHub token, preferring the session-only one
+ */
+export const getToken = (): string | undefined => {
+  // Not available when services run under Node (e.g. the generator CLI)
+  if (typeof localStorage === 'undefined') return undefined;
+  return sessionStorage.getItem(TOKEN_KEY) || localStorage.getItem(TOKEN_KEY) || undefined;
+};
+
+export const isTokenPersistent = (): boolean => !!localStorage.getItem(TOKEN_KEY);
+
+/**
+ * Stores the token for this tab only, or across sessions when persist is set
+ */
+export const saveToken = (token: string, persist: boolean) => {
+  clearToken();
+  (persist ? localStorage : sessionStorage).setItem(TOKEN_KEY, token);
+};
+
+export const clearToken = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  sessionStorage.removeItem(TOKEN_KEY);
+};
@@ -0,0 +1,132 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchForgeStats } from '../services/forgeStats';
+import { RepoRef, groupRepoRef } from '../utils/repoRef';
+
+const payload = (forge: string) => readFileSync(join(__dirname, 'fixtures/forge-api', `${forge}.json`), 'utf8');
+
+// Serves one canned response and records the requested URL
+const stubFetch = (body: string, status = 200) => {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+    new Response(status === 200 ? body : JSON.stringify({ message: body }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const ref = (forge: RepoRef['forge'], host: string, owner: string, repo: string): RepoRef => ({ forge, host, owner, repo });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchForgeStats', () => {
+  it('maps a GitHub repository', async () => {
+    const fetchMock = stubFetch(payload('github'));
+    const stats = await fetchForgeStats(ref('github', 'github.com', 'sdras', 'typora-night-owl'), 'secret');
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/sdras/typora-night-owl');
+    expect(new Headers(fetchMock.mock.calls[0][1]?.headers).get('Authorization')).toBe('token secret');
+    expect(stats).toEqual({
+      stars: 412,
+      lastCommitAt: '2024-11-20T17:45:03Z',
+      license: 'MIT',
+      openIssues: 4,
+      description: 'A Typora theme for night owls',
+      defaultBranch: 'main',
+      error: false,
+    });
+  });
+
+  it('maps a GitLab project, falling back to the license name', async () => {
+    const fetchMock = stubFetch(payload('gitlab'));
+    const stats = await fetchForgeStats(ref('gitlab', 'gitlab.com', 'kim/themes', 'typora-paper'));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://gitlab.com/api/v4/projects/kim%2Fthemes%2Ftypora-paper?license=true');
+    expect(stats).toEqual({
+      stars: 27,
+      lastCommitAt: '2023-02-14T09:30:00.000Z',
+      license: 'Apache License 2.0',
+      openIssues: 1,
+      description: 'Paper-like theme for Typora',
+      error: false,
+    });
+  });
+
+  it('maps a Gitee repository, dropping an empty description', async () => {
+    const fetchMock = stubFetch(payload('gitee'));
+    const stats = await fetchForgeStats(ref('gitee', 'gitee.com', 'lin', 'typora-ink'));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://gitee.com/api/v5/repos/lin/typora-ink');
+    expect(stats).toEqual({
+      stars: 85,
+      lastCommitAt: '2022-08-09T21:03:44+08:00',
+      license: 'GPL-3.0',
+      openIssues: 0,
+      description: undefined,
+      error: false,
+    });
+  });
+
+  it('maps a Codeberg repository', async () => {
+    const fetchMock = stubFetch(payload('codeberg'));
+    const stats = await fetchForgeStats(ref('codeberg', 'codeberg.org', 'moss', 'typora-forest'));
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://codeberg.org/api/v1/repos/moss/typora-forest');
+    expect(stats).toEqual({
+      stars: 9,
+      lastCommitAt: '2025-03-30T11:22:33+02:00',
+      license: 'CC-BY-4.0',
+      openIssues: 2,
+      description: 'Green theme for Typora',
+      error: false,
+    });
+  });
+
+  it.each([
+    ['github', 'github.com'],
+    ['gitlab', 'gitlab.com'],
+    ['gitee', 'gitee.com'],
+    ['codeberg', 'codeberg.org'],
+  ] as const)('flags a missing %s repository as not found', async (forge, host) => {
+    stubFetch('Not Found', 404);
+    expect(await fetchForgeStats(ref(forge, host, 'gone', `missing-${forge}`)))
+      .toEqual({ stars: 0, lastCommitAt: '', isNotFound: true, error: false });
+  });
+
+  it.each([
+    ['github', 'github.com', 403],
+    ['github', 'github.com', 429],
+    ['gitlab', 'gitlab.com', 429],
+    ['gitee', 'gitee.com', 403],
+    ['codeberg', 'codeberg.org', 429],
+  ] as const)('flags a %s rate limit (%s)', async (forge, host, status) => {
+    stubFetch('API rate limit exceeded', status);
+    expect(await fetchForgeStats(ref(forge, host, 'busy', `limited-${forge}-${status}`)))
+      .toEqual({ stars: 0, lastCommitAt: '', error: true, isRateLimit: true });
+  });
+
+  it('reports server and network errors', async () => {
+    stubFetch('Internal Server Error', 500);
+    expect(await fetchForgeStats(ref('gitlab', 'gitlab.com', 'broken', 'server')))
+      .toEqual({ stars: 0, lastCommitAt: '', error: true });
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(await fetchForgeStats(ref('codeberg', 'codeberg.org', 'broken', 'network')))
+      .toEqual({ stars: 0, lastCommitAt: '', error: true });
+  });
+
+  it('skips groups without a supported repository', async () => {
+    const fetchMock = stubFetch('{}');
+    const unknown = groupRepoRef({ repoHost: 'github.com', repoOwner: 'unknown', repoName: 'unknown' });
+    expect(unknown.forge).toBe('unknown');
+    expect(groupRepoRef({ repoHost: 'bitbucket.org', repoOwner: 'someone', repoName: 'theme' }).forge).toBe('unknown');
+
+    expect(await fetchForgeStats(unknown))
+      .toEqual({ stars: 0, lastCommitAt: '', isNotFound: true, error: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
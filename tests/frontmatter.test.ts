@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseFrontmatter } from '../utils/frontmatter';
+
+const readPost = (name: string) => readFileSync(join(__dirname, 'fixtures/posts', name), 'utf8');
+
+describe('parseFrontmatter', () => {
+  it('reads every field of a valid post', () => {
+    const { data, body, warnings } = parseFrontmatter(readPost('2021-3-4-Dracula.md'));
+    expect(data).toEqual({
+      title: 'Dracula',
+      author: 'Elliot Ye',
+      description: 'Dark theme for Typora, based on the Dracula palette',
+      category: 'dark',
+      tags: ['dark', 'minimal'],
+      thumbnail: '/media/theme/dracula/thumbnail.png',
+      homepage: 'https://github.com/elliotye/typora-dracula',
+      download: 'https://github.com/elliotye/typora-dracula/releases',
+    });
+    expect(body.trimStart()).toMatch(/^## Dracula/);
+    expect(warnings).toEqual([]);
+  });
+
+  it('falls back to the loose parser for malformed YAML', () => {
+    const { data, warnings } = parseFrontmatter(readPost('2019-11-2-Broken.md'));
+    expect(data).toEqual({
+      title: 'Broken: A Theme',
+      author: 'Jo Doe',
+      homepage: 'not a url',
+      tags: ['light', 'print_friendly'],
+    });
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toMatch(/^YAML error: /);
+    expect(warnings[1]).toBe('Field "homepage" is not a valid URL: not a url');
+  });
+
+  it('keeps the whole file as body when there is no frontmatter', () => {
+    const text = readPost('2018-5-6-NoFrontmatter.md');
+    const { data, body, warnings } = parseFrontmatter(text);
+    expect(data).toEqual({ title: '' });
+    expect(body).toBe(text);
+    expect(warnings).toEqual(['No frontmatter block found']);
+  });
+
+  it('handles CRLF line endings', () => {
+    const { data, body, warnings } = parseFrontmatter(readPost('2020-1-9-Crlf.md'));
+    expect(data).toEqual({ title: 'Windows Theme', author: 'Someone', category: 'light' });
+    expect(body).toBe('\r\nWritten on Windows.\r\n');
+    expect(warnings).toEqual([]);
+  });
+
+  it('skips a UTF-8 byte order mark', () => {
+    const text = readPost('2020-2-3-Bom.md');
+    expect(text.charCodeAt(0)).toBe(0xfeff);
+    const { data, body, warnings } = parseFrontmatter(text);
+    expect(data).toEqual({ title: 'Bom Theme', author: 'Notepad User' });
+    expect(body).toBe('\nSaved with a byte order mark.\n');
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads block scalars and ignores comments', () => {
+    const { data, warnings } = parseFrontmatter(readPost('2023-6-7-Blocks.md'));
+    expect(data).toEqual({
+      title: 'Blocks',
+      author: 'Ada',
+      description: 'A folded description that spans two lines.',
+      category: 'light',
+      tags: ['serif'],
+      homepage: 'https://github.com/ada/typora-blocks',
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('keeps the line breaks of a literal block scalar', () => {
+    const { data } = parseFrontmatter('---\ntitle: Lines\ndescription: |\n  Line one\n  Line two\n---\n');
+    expect(data.description).toBe('Line one\nLine two');
+  });
+
+  it('reports a missing title and non-string fields', () => {
+    const { warnings } = parseFrontmatter('---\nauthor: [a, b]\n---\n');
+    expect(warnings).toEqual(['Field "author" should be a string', 'Missing "title"']);
+  });
+});
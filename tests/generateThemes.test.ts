@@ -0,0 +1,64 @@
+import { join } from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { generatePostTextIndex, generateThemeGroups, parseArgs, readPosts } from '../scripts/generate-themes';
+
+const POSTS_DIR = join(__dirname, 'fixtures/_posts/theme');
+
+describe('generate-themes', () => {
+  it('reads only Markdown posts, sorted by file name', async () => {
+    const posts = await readPosts(POSTS_DIR);
+    expect(posts.map(p => p.fileName)).toEqual([
+      '2019-2-2-Orphan.md',
+      '2020-5-1-Night-Owl.md',
+      '2020-5-2-Light-Owl.md',
+      '2022-1-1-Paper.md',
+    ]);
+  });
+
+  it('groups the variants by repository', async () => {
+    const groups = generateThemeGroups(await readPosts(POSTS_DIR));
+    expect(groups.map(g => ({ id: g.id, themes: g.themes.map(t => t.title), loadingStats: g.loadingStats }))).toEqual([
+      { id: 'unknown/unknown', themes: ['Orphan'], loadingStats: false },
+      { id: 'sdras/typora-night-owl', themes: ['Night Owl', 'Light Owl'], loadingStats: false },
+      { id: 'gitlab.com/kim/typora-paper', themes: ['Paper'], loadingStats: false },
+    ]);
+
+    const nightOwl = groups[1].themes[0];
+    expect(nightOwl).toMatchObject({
+      id: '2020-5-1-Night-Owl.md',
+      author: 'Sarah Drasner',
+      category: 'dark',
+      repoOwner: 'sdras',
+      repoName: 'typora-night-owl',
+    });
+    expect(nightOwl.thumbnail).toMatch(/^https:\/\/.*media\/theme\/night-owl\/thumbnail\.png$/);
+  });
+
+  it('indexes the plain text of non-empty post bodies', async () => {
+    const index = generatePostTextIndex(await readPosts(POSTS_DIR));
+    expect(index).toEqual({
+      '2019-2-2-Orphan.md': 'A theme whose repository is not linked.',
+      '2020-5-1-Night-Owl.md': 'Night Owl Fine-tuned for late-night coding, with accessible colors.',
+      '2020-5-2-Light-Owl.md': 'The light variant of Night Owl.',
+    });
+  });
+
+  it('parses the command line', () => {
+    vi.stubEnv('GITHUB_TOKEN', 'env-token');
+    expect(parseArgs(['posts', '--out', 'themes.json', '--stats', '--text', 'text.json'])).toEqual({
+      postsDir: 'posts',
+      out: 'themes.json',
+      stats: true,
+      palette: false,
+      text: 'text.json',
+      token: 'env-token',
+    });
+    expect(parseArgs(['posts', '--token', 'cli-token']).token).toBe('cli-token');
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects unknown flags and a missing posts directory', () => {
+    expect(() => parseArgs(['posts', '--verbose'])).toThrow('Unknown option: --verbose');
+    expect(() => parseArgs(['--stats'])).toThrow(/^Usage: /);
+  });
+});
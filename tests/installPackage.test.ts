@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import JSZip from 'jszip';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildInstallPackage, canBuildInstallPackage, findPackageFiles } from '../services/installPackage';
+import { ThemeGroup, ThemeItem } from '../types';
+
+const TREE = readFileSync(join(__dirname, 'fixtures/forge-api/github-tree.json'), 'utf8');
+const TREE_PATHS: string[] = JSON.parse(TREE).tree.filter((entry: any) => entry.type === 'blob').map((entry: any) => entry.path);
+
+const theme: ThemeItem = { id: '2022-3-1-Ocean.md', fileName: '2022-3-1-Ocean.md', title: 'Ocean' };
+
+const group = (repoName: string): ThemeGroup => ({
+  id: `sea/${repoName}`,
+  repoHost: 'github.com',
+  repoOwner: 'sea',
+  repoName,
+  themes: [theme],
+  stats: { stars: 1, lastCommitAt: '', defaultBranch: 'main' },
+});
+
+// Serves the recorded tree from the GitHub API and every file from jsDelivr with its own path as content
+const stubRepository = (treeBody = TREE) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    if (url.startsWith('https://api.github.com/')) {
+      return new Response(treeBody, { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    const path = decodeURIComponent(url.replace(/^https:\/\/cdn\.jsdelivr\.net\/gh\/[^/]+\/[^/]+@main\//, ''));
+    return new Response(`contents of ${path}`, { status: 200 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('findPackageFiles', () => {
+  it('bundles the stylesheet with its companion folder only', () => {
+    expect(findPackageFiles(TREE_PATHS, 'themes/ocean.css')).toEqual([
+      { path: 'themes/ocean.css', zipPath: 'ocean.css' },
+      { path: 'themes/ocean/fonts/Inter.woff2', zipPath: 'ocean/fonts/Inter.woff2' },
+      { path: 'themes/ocean/images/wave.png', zipPath: 'ocean/images/wave.png' },
+    ]);
+  });
+
+  it('handles a stylesheet at the repository root and mixed-case folders', () => {
+    expect(findPackageFiles(['Night.css', 'night/bg.jpg', 'nightly/x.png', 'src/night/y.png'], 'Night.css')).toEqual([
+      { path: 'Night.css', zipPath: 'Night.css' },
+      { path: 'night/bg.jpg', zipPath: 'night/bg.jpg' },
+    ]);
+  });
+});
+
+describe('buildInstallPackage', () => {
+  it('zips the theme files with an install README', async () => {
+    const fetchMock = stubRepository();
+    const { blob, fileName } = await buildInstallPackage(group('typora-ocean'), theme);
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/sea/typora-ocean/git/trees/main?recursive=1');
+    expect(fileName).toBe('ocean.zip');
+
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    const entries = Object.values(zip.files).filter(entry => !entry.dir).map(entry => entry.name).sort();
+    expect(entries).toEqual(['README.txt', 'ocean.css', 'ocean/fonts/Inter.woff2', 'ocean/images/wave.png']);
+    expect(await zip.file('ocean/fonts/Inter.woff2')!.async('string')).toBe('contents of themes/ocean/fonts/Inter.woff2');
+
+    const readme = await zip.file('README.txt')!.async('string');
+    expect(readme).toMatch(/^Ocean for Typora\n={16}\n/);
+    expect(readme).toContain('Copy ocean.css and the folder next to it');
+    expect(readme).toContain('%AppData%\\Typora\\themes');
+    expect(readme).toContain('~/Library/Application Support/abnerworks.Typora/themes');
+    expect(readme).toContain('~/.config/Typora/themes');
+  });
+
+  it('is only offered for groups with a GitHub repository', async () => {
+    const fetchMock = stubRepository();
+    const unknown: ThemeGroup = { id: 'unknown/unknown', repoHost: 'github.com', repoOwner: 'unknown', repoName: 'unknown', themes: [theme] };
+
+    expect(canBuildInstallPackage(group('typora-ocean'))).toBe(true);
+    expect(canBuildInstallPackage({ ...group('typora-ocean'), id: 'gitlab.com/sea/typora-ocean', repoHost: 'gitlab.com' })).toBe(false);
+    expect(canBuildInstallPackage(unknown)).toBe(false);
+
+    await expect(buildInstallPackage(unknown, theme)).rejects.toThrow('This theme has no repository');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('fails when the repository has no stylesheet', async () => {
+    stubRepository(JSON.stringify({ tree: [{ path: 'README.md', type: 'blob' }] }));
+    await expect(buildInstallPackage(group('no-css'), theme)).rejects.toThrow('No CSS file found in the repository');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimitDeferredError, getRateLimit, scheduleRequest, updateRateLimit } from '../services/scheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A response that reports the given quota, as GitHub's API does
+const quotaResponse = (remaining: number, reset: number) => async () =>
+  new Response('{}', {
+    headers: {
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': String(remaining),
+      'X-RateLimit-Reset': String(Math.floor(reset / 1000)),
+    },
+  });
+
+describe('scheduleRequest', () => {
+  it('runs requests and records the quota they report', async () => {
+    const response = await scheduleRequest(quotaResponse(40, Date.now() + HOUR_MS));
+    expect(response.ok).toBe(true);
+    expect(getRateLimit()).toMatchObject({ limit: 60, remaining: 40, waiting: false });
+  });
+
+  it('rejects requests that cannot wait until the quota resets', async () => {
+    const reset = Date.now() + HOUR_MS;
+    await scheduleRequest(quotaResponse(1, reset));
+
+    const deferred = scheduleRequest(quotaResponse(1, reset), 30 * 1000);
+    await expect(deferred).rejects.toBeInstanceOf(RateLimitDeferredError);
+    expect(getRateLimit().waiting).toBe(false);
+  });
+
+  it('holds patient requests until the quota is replaced', async () => {
+    const held = scheduleRequest(quotaResponse(4999, Date.now() + HOUR_MS));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(getRateLimit().waiting).toBe(true);
+
+    updateRateLimit({ limit: 5000, remaining: 5000, reset: Date.now() + HOUR_MS });
+    await expect(held).resolves.toBeInstanceOf(Response);
+    expect(getRateLimit()).toMatchObject({ remaining: 4999, waiting: false });
+  });
+});
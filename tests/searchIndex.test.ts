@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchIndex, scoreTheme, searchThemes } from '../utils/searchIndex';
+import { PostTextIndex, ThemeGroup, ThemeItem } from '../types';
+
+const theme = (id: string, fields: Partial<ThemeItem> = {}): ThemeItem => ({ id, fileName: id, title: id, ...fields });
+
+const group = (themes: ThemeItem[]): ThemeGroup => ({ id: 'owner/repo', repoOwner: 'owner', repoName: 'repo', themes });
+
+// Scores one theme against a query, through the same index the gallery builds
+const score = (item: ThemeItem, terms: string[], postTexts?: PostTextIndex) =>
+  scoreTheme(buildSearchIndex([group([item])], postTexts).get(item.id)!, terms);
+
+describe('scoreTheme', () => {
+  it('ranks exact titles above word starts above substrings', () => {
+    const exact = score(theme('a', { title: 'Night' }), ['night'])!;
+    const wordStart = score(theme('b', { title: 'Night Owl' }), ['night'])!;
+    const substring = score(theme('c', { title: 'Midnight' }), ['night'])!;
+
+    expect(exact.score).toBeGreaterThan(wordStart.score);
+    expect(wordStart.score).toBeGreaterThan(substring.score);
+    expect(substring.highlights).toEqual({ title: [[3, 8]] });
+  });
+
+  it('weighs titles above authors above descriptions', () => {
+    const inTitle = score(theme('a', { title: 'Ocean' }), ['ocean'])!;
+    const inAuthor = score(theme('b', { title: 'Blue', author: 'Ocean' }), ['ocean'])!;
+    const inDescription = score(theme('c', { title: 'Blue', description: 'Ocean' }), ['ocean'])!;
+
+    expect(inTitle.score).toBeGreaterThan(inAuthor.score);
+    expect(inAuthor.score).toBeGreaterThan(inDescription.score);
+    expect(inDescription.highlights).toEqual({ description: [[0, 5]] });
+  });
+
+  it('falls back to the repository owner as author', () => {
+    expect(score(theme('a', { title: 'Blue' }), ['owner'])!.highlights).toEqual({ author: [[0, 5]] });
+  });
+
+  it('requires every term to match', () => {
+    expect(score(theme('a', { title: 'Night Owl' }), ['night', 'owl'])).not.toBeNull();
+    expect(score(theme('a', { title: 'Night Owl' }), ['night', 'zebra'])).toBeNull();
+  });
+
+  it('matches Chinese titles by full pinyin and by initials', () => {
+    const item = theme('a', { title: '夜间模式' });
+
+    expect(score(item, ['yejian'])!.highlights).toEqual({ title: [[0, 2]] });
+    expect(score(item, ['jianmo'])!.highlights).toEqual({ title: [[1, 3]] });
+    expect(score(item, ['yjms'])!.highlights).toEqual({ title: [[0, 4]] });
+    expect(score(item, ['夜间'])!.highlights).toEqual({ title: [[0, 2]] });
+    // Pinyin has to start on a syllable, and a single initial is too vague
+    expect(score(item, ['ejian'])).toBeNull();
+    expect(score(item, ['y'])).toBeNull();
+
+    expect(score(item, ['yejian'])!.score).toBeGreaterThan(score(item, ['yj'])!.score);
+    expect(score(item, ['夜间'])!.score).toBeGreaterThan(score(item, ['yejian'])!.score);
+  });
+
+  it('tolerates typos in longer terms', () => {
+    const item = theme('a', { title: 'Dracula Solarized' });
+
+    expect(score(item, ['drakula'])!.highlights).toEqual({ title: [[0, 7]] });
+    expect(score(item, ['solarizde'])!.highlights).toEqual({ title: [[8, 17]] });
+    // Eight letters allow two edits, seven only one, and short terms none
+    expect(score(item, ['drakulla'])).not.toBeNull();
+    expect(score(item, ['drekula'])).toBeNull();
+    expect(score(item, ['dru'])).toBeNull();
+
+    expect(score(item, ['drakula'])!.score).toBeLessThan(score(item, ['dracula'])!.score);
+  });
+
+  it('matches dark and light against the palette', () => {
+    const dark = theme('a', { title: 'Blue', palette: { appearance: 'dark', accents: [] } });
+    expect(score(dark, ['dark'])).not.toBeNull();
+    expect(score(dark, ['light'])).toBeNull();
+  });
+
+  it('searches post bodies only when there is a full-text index', () => {
+    const item = theme('a', { title: 'Blue' });
+    const body = `${'Intro words here. '.repeat(5)}It renders Footnotes nicely, and footnotes in tables too.`;
+
+    expect(score(item, ['footnotes'])).toBeNull();
+
+    const match = score(item, ['footnotes'], { a: body })!;
+    expect(match.highlights).toEqual({});
+    expect(match.score).toBeLessThan(score(theme('b', { title: 'Blue', description: 'Footnotes' }), ['footnotes'])!.score);
+
+    const { text, ranges } = match.snippet!;
+    expect(text.startsWith('… ')).toBe(true);
+    expect(ranges).toHaveLength(2);
+    ranges.forEach(([start, end]) => expect(text.slice(start, end).toLowerCase()).toBe('footnotes'));
+  });
+
+  it('only builds a snippet for terms found nowhere else', () => {
+    const match = score(theme('a', { title: 'Blue' }), ['blue'], { a: 'A blue theme.' })!;
+    expect(match.snippet).toBeUndefined();
+  });
+});
+
+describe('searchThemes', () => {
+  it('picks the best-scoring variant of a group', () => {
+    const variants = [theme('a', { title: 'Midnight' }), theme('b', { title: 'Night' }), theme('c', { title: 'Day' })];
+    const index = buildSearchIndex([group(variants)]);
+
+    expect(searchThemes(index, variants, ['night'])!.theme.id).toBe('b');
+    expect(searchThemes(index, variants, ['dusk'])).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import {
+  editDistance, isEmptyQuery, matchesGroupQualifiers, matchesThemeQualifiers, parseSearchQuery, tokenizeQuery,
+} from '../utils/searchQuery';
+import { ThemeGroup, ThemeItem } from '../types';
+
+const theme = (fileName: string, fields: Partial<ThemeItem> = {}): ThemeItem => ({ id: fileName, fileName, title: fileName, ...fields });
+
+const group = (lastCommitAt?: string, fields: Partial<ThemeGroup> = {}): ThemeGroup => ({
+  id: 'owner/repo',
+  repoOwner: 'owner',
+  repoName: 'repo',
+  themes: [theme('2021-3-4-Repo.md')],
+  stats: lastCommitAt !== undefined ? { stars: 0, lastCommitAt } : undefined,
+  ...fields,
+});
+
+// Which of the given commit dates an `updated:` value accepts
+const updatedMatches = (value: string, dates: string[]) => {
+  const query = parseSearchQuery(`updated:${value}`);
+  expect(query.errors).toEqual([]);
+  return dates.filter(date => matchesGroupQualifiers(group(date), query));
+};
+
+// Which of the given post file names a `published:` value accepts
+const publishedMatches = (value: string, fileNames: string[]) => {
+  const query = parseSearchQuery(`published:${value}`);
+  expect(query.errors).toEqual([]);
+  return fileNames.filter(name => matchesThemeQualifiers(theme(name), group(), query));
+};
+
+describe('tokenizeQuery', () => {
+  it('keeps quoted values together and records offsets', () => {
+    expect(tokenizeQuery('  one "night owl" author:"jo doe"')).toEqual([
+      { text: 'one', start: 2, end: 5 },
+      { text: '"night owl"', start: 6, end: 17 },
+      { text: 'author:"jo doe"', start: 18, end: 33 },
+    ]);
+  });
+
+  it('runs an unclosed quote to the end of the input', () => {
+    expect(tokenizeQuery('dark "one night').map(token => token.text)).toEqual(['dark', '"one night']);
+  });
+});
+
+describe('editDistance', () => {
+  it.each([
+    ['kitten', 'sitting', 3],
+    ['flaw', 'lawn', 2],
+    ['', 'abc', 3],
+    ['abc', '', 3],
+    ['same', 'same', 0],
+    ['autor', 'author', 1],
+  ])('%s → %s is %i', (a, b, distance) => {
+    expect(editDistance(a, b)).toBe(distance);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('splits terms from qualifiers and lowercases phrases', () => {
+    const query = parseSearchQuery('Night "One Dark" stars:>10');
+    expect(query.terms).toEqual(['night', 'one dark']);
+    expect(query.groupFilters).toHaveLength(1);
+    expect(query.errors).toEqual([]);
+    expect(isEmptyQuery(parseSearchQuery('   '))).toBe(true);
+  });
+
+  it('reports unclosed quotes but still uses what was typed', () => {
+    const phrase = parseSearchQuery('"one dark');
+    expect(phrase.errors).toEqual([{ kind: 'unclosed-quote', token: '"one dark' }]);
+    expect(phrase.terms).toEqual(['one dark']);
+
+    const qualified = parseSearchQuery('author:"jo do');
+    expect(qualified.errors).toEqual([{ kind: 'unclosed-quote', token: 'author:"jo do' }]);
+    expect(matchesThemeQualifiers(theme('a.md', { author: 'Jo Doe' }), group(), qualified)).toBe(true);
+    expect(matchesThemeQualifiers(theme('b.md', { author: 'Someone' }), group(), qualified)).toBe(false);
+  });
+
+  it('suggests the closest qualifier for typos and prefixes', () => {
+    const suggestion = (input: string) => parseSearchQuery(input).errors[0];
+    expect(suggestion('auther:jo')).toEqual({ kind: 'unknown-qualifier', token: 'auther:jo', suggestion: 'author' });
+    expect(suggestion('pub:2020').suggestion).toBe('published');
+    expect(suggestion('licence:mit').suggestion).toBe('license');
+    expect(suggestion('xyzzy:1')).toEqual({ kind: 'unknown-qualifier', token: 'xyzzy:1', suggestion: undefined });
+  });
+
+  it('reports empty values, bad numbers, bad dates and unknown options', () => {
+    expect(parseSearchQuery('stars: variants:lots updated:june is:blue').errors.map(error => error.kind))
+      .toEqual(['empty-value', 'invalid-number', 'invalid-date', 'invalid-option']);
+    expect(parseSearchQuery('is:blue').errors[0].options).toEqual(['dark', 'light', 'multi']);
+  });
+
+  it('reports palette qualifiers when there are no palettes', () => {
+    const query = parseSearchQuery('is:dark font:serif is:multi', false);
+    expect(query.errors).toEqual([
+      { kind: 'needs-palette', token: 'is:dark' },
+      { kind: 'needs-palette', token: 'font:serif' },
+    ]);
+    expect(query.groupFilters).toHaveLength(1);
+  });
+
+  it('compares numbers with ranges and operators', () => {
+    const stars = (value: string) => [0, 9, 10, 50, 51].filter(n =>
+      matchesGroupQualifiers(group('', { stats: { stars: n, lastCommitAt: '' } }), parseSearchQuery(`stars:${value}`)));
+    expect(stars('>10')).toEqual([50, 51]);
+    expect(stars('>=10')).toEqual([10, 50, 51]);
+    expect(stars('<10')).toEqual([0, 9]);
+    expect(stars('10..50')).toEqual([10, 50]);
+    expect(stars('9')).toEqual([9]);
+  });
+});
+
+describe('date qualifiers', () => {
+  const dates = ['2021-12-31T23:59:59Z', '2022-01-01T00:00:00Z', '2022-06-30T12:00:00Z', '2022-07-01T00:00:00Z', '2023-01-01T00:00:00Z'];
+
+  it('compares against whole years', () => {
+    expect(updatedMatches('2022', dates)).toEqual(dates.slice(1, 4));
+    expect(updatedMatches('<2022', dates)).toEqual(dates.slice(0, 1));
+    expect(updatedMatches('<=2022', dates)).toEqual(dates.slice(0, 4));
+    expect(updatedMatches('>2022', dates)).toEqual(dates.slice(4));
+    expect(updatedMatches('>=2022', dates)).toEqual(dates.slice(1));
+  });
+
+  it('compares against whole months and days', () => {
+    expect(updatedMatches('2022-06', dates)).toEqual(['2022-06-30T12:00:00Z']);
+    expect(updatedMatches('<=2022-06', dates)).toEqual(dates.slice(0, 3));
+    expect(updatedMatches('>=2022-7', dates)).toEqual(dates.slice(3));
+    expect(updatedMatches('2022-06-30', dates)).toEqual(['2022-06-30T12:00:00Z']);
+    expect(updatedMatches('>2022-06-30', dates)).toEqual(dates.slice(3));
+  });
+
+  it('includes both ends of a range', () => {
+    expect(updatedMatches('2021..2022', dates)).toEqual(dates.slice(0, 4));
+    expect(updatedMatches('2022-01..2022-06', dates)).toEqual(dates.slice(1, 3));
+    expect(updatedMatches('2022..2021', dates)).toEqual([]);
+  });
+
+  it('rolls over the turn of the year', () => {
+    expect(updatedMatches('2021-12', dates)).toEqual(['2021-12-31T23:59:59Z']);
+    expect(updatedMatches('>2021-12-31', dates)).toEqual(dates.slice(1));
+  });
+
+  it('rejects dates that do not exist', () => {
+    ['2022-13', '2022-0', '2022-02-30', '2022-06-0', '2022-06-31', '22', '2022-', '2020..', '..2022'].forEach(value => {
+      expect(parseSearchQuery(`updated:${value}`).errors).toEqual([{ kind: 'invalid-date', token: `updated:${value}` }]);
+    });
+    expect(parseSearchQuery('updated:2024-02-29').errors).toEqual([]);
+  });
+
+  it('leaves out repositories without commit data', () => {
+    const query = parseSearchQuery('updated:>2000');
+    expect(matchesGroupQualifiers(group(), query)).toBe(false);
+    expect(matchesGroupQualifiers(group(''), query)).toBe(false);
+  });
+
+  it('reads the post date from the file name', () => {
+    const files = ['2019-12-31-A.md', '2020-1-1-B.md', '2020-12-31-C.md', '2021-1-1-D.md', 'Undated.md'];
+    expect(publishedMatches('2020', files)).toEqual(['2020-1-1-B.md', '2020-12-31-C.md']);
+    expect(publishedMatches('<2020', files)).toEqual(['2019-12-31-A.md']);
+    expect(publishedMatches('>=2020-12', files)).toEqual(['2020-12-31-C.md', '2021-1-1-D.md']);
+  });
+});
@@ -6,6 +6,8 @@ export interface ThemeFrontmatter {
   thumbnail?: string;
   description?: string;
   category?: string;
+  tags?: string[];
+  screenshots?: string[]; // Extra preview images besides the thumbnail
 }
 
 export interface RepoStats {
@@ -14,6 +16,7 @@ export interface RepoStats {
   license?: string;
   openIssues?: number;
   description?: string;
+  defaultBranch?: string;
 
   // Status flags
   error?: boolean;       // Generic error flag
@@ -21,29 +24,96 @@ export interface RepoStats {
   isNotFound?: boolean;  // Specific flag for 404
 }
 
+export type ThemeAppearance = 'light' | 'dark';
+
+export type FontCategory = 'serif' | 'sans-serif' | 'monospace';
+
+// Derived from the theme's stylesheet; colors are #rrggbb
+export interface ThemePalette {
+  appearance: ThemeAppearance;
+  background?: string;
+  foreground?: string;
+  accents: string[]; // Most used saturated colors, up to three
+  fontFamily?: string; // Body font stack
+  fontCategory?: FontCategory;
+  headingFont?: string;
+  codeFont?: string;
+}
+
 export interface ThemeItem extends ThemeFrontmatter {
   id: string; // usually filename
   fileName: string;
+  repoHost?: string; // Forge hostname, github.com when absent
   repoOwner?: string;
   repoName?: string;
   stats?: RepoStats;
   loadingStats?: boolean;
+  source?: string; // Data source this variant came from
+  palette?: ThemePalette;
+}
+
+// Character ranges [start, end) of search matches, per field
+export interface MatchHighlights {
+  title?: [number, number][];
+  author?: [number, number][];
+  description?: [number, number][];
+}
+
+// Excerpt of a post body around a search match, with the matches as ranges into `text`
+export interface TextSnippet {
+  text: string;
+  ranges: [number, number][];
 }
 
+// Plain-text post bodies by theme id, for full-text search
+export type PostTextIndex = Record<string, string>;
+
 export interface ThemeGroup {
-  id: string; // repoOwner/repoName
+  id: string; // repoOwner/repoName, prefixed with the host outside GitHub
+  repoHost?: string; // Forge hostname, github.com when absent
   repoOwner: string;
   repoName: string;
   themes: ThemeItem[];
   stats?: RepoStats;
   loadingStats?: boolean;
   matchedThemeId?: string; // ID of the theme that matched the search term
+  matchScore?: number; // Search relevance of that theme
+  matchHighlights?: MatchHighlights;
+  matchSnippet?: TextSnippet; // Set when a term was only found in the post body
+  source?: string; // Data source that provided the group
+}
+
+export type DataIssueKind =
+  | 'invalid-group'
+  | 'invalid-item'
+  | 'empty-group'
+  | 'duplicate-id'
+  | 'missing-title'
+  | 'missing-thumbnail'
+  | 'invalid-homepage'
+  | 'invalid-palette';
+
+export interface DataIssue {
+  kind: DataIssueKind;
+  action: 'dropped' | 'repaired' | 'kept';
+  message: string;
+  groupId?: string;
+  themeId?: string;
+  source?: string;
+}
+
+export interface ThemeDataset {
+  groups: ThemeGroup[];
+  generatedAt: number; // When the data was produced (ms timestamp)
+  issues?: DataIssue[]; // Problems found while validating the data
 }
 
 export enum SortOption {
   STARS = 'stars',
   UPDATED = 'updated',
   NAME = 'name',
+  TRENDING = 'trending', // Stars gained over a recent window
+  RELEVANCE = 'relevance', // Search score; only offered while searching
 }
 
 export interface GitHubContentFile {
@@ -0,0 +1,276 @@
+import { FontCategory, ThemePalette } from '../types';
+
+export type ColorFamily = 'red' | 'orange' | 'yellow' | 'green' | 'cyan' | 'blue' | 'purple' | 'pink' | 'gray';
+
+export const COLOR_FAMILIES: ColorFamily[] = ['red', 'orange', 'yellow', 'green', 'cyan', 'blue', 'purple', 'pink', 'gray'];
+
+// Representative swatch per family, for filter buttons
+export const COLOR_FAMILY_SWATCHES: Record<ColorFamily, string> = {
+  red: '#e5484d',
+  orange: '#f76b15',
+  yellow: '#ffc53d',
+  green: '#30a46c',
+  cyan: '#00a2c7',
+  blue: '#0090ff',
+  purple: '#8e4ec6',
+  pink: '#d6409f',
+  gray: '#8b8d98',
+};
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+interface CssRule {
+  selectors: string[];
+  declarations: [string, string][];
+}
+
+// Selectors whose rules style the document as a whole, most specific first
+const BASE_SELECTORS = ['#write', '.typora-export', 'content', 'body', 'html', ':root'];
+const HEADING_SELECTOR = /(^|\s|>)h[1-3]$/;
+const CODE_SELECTOR = /(^|\s|>)(code|pre|tt)$|\.md-fences|\.CodeMirror/;
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff', black: '#000000', red: '#ff0000', green: '#008000', blue: '#0000ff',
+  yellow: '#ffff00', orange: '#ffa500', purple: '#800080', gray: '#808080', grey: '#808080',
+  silver: '#c0c0c0', navy: '#000080', teal: '#008080', maroon: '#800000', olive: '#808000',
+  whitesmoke: '#f5f5f5', ghostwhite: '#f8f8ff', snow: '#fffafa', ivory: '#fffff0', linen: '#faf0e6',
+  beige: '#f5f5dc', darkgray: '#a9a9a9', darkgrey: '#a9a9a9', dimgray: '#696969', lightgray: '#d3d3d3',
+};
+
+const COLOR_TOKEN = new RegExp(`#[0-9a-f]{3,8}\\b|rgba?\\([^)]*\\)|hsla?\\([^)]*\\)|\\b(?:${Object.keys(NAMED_COLORS).join('|')})\\b`, 'gi');
+
+const MONOSPACE_FONTS = ['mono', 'source code', 'courier', 'consolas', 'menlo', 'monaco', 'fira code', 'jetbrains', 'inconsolata', 'iosevka'];
+const SERIF_FONTS = ['georgia', 'times', 'palatino', 'garamond', 'cambria', 'baskerville', 'book antiqua', 'merriweather',
+  'lora', 'crimson', 'libre baskerville', 'charter', 'songti', 'simsun', '宋体', 'stsong', 'mincho', 'kaiti', '楷体'];
+const SANS_FONTS = ['sans', 'helvetica', 'arial', 'segoe ui', 'roboto', 'inter', 'lato', 'open sans', 'ubuntu', 'verdana',
+  'system-ui', '-apple-system', 'blinkmacsystemfont', 'pingfang', 'yahei', '黑体', 'heiti', 'hiragino', 'gothic', 'avenir'];
+
+/**
+ * Splits a stylesheet into top-level rules. Rules inside at-rules such as
+ * @media are skipped, since print and dark-mode overrides would skew the result.
+ */
+const parseRules = (css: string): CssRule[] => {
+  const rules: CssRule[] = [];
+  const stack: string[] = [];
+  let buffer = '';
+
+  for (const ch of css.replace(/\/\*[\s\S]*?\*\//g, '')) {
+    if (ch === '{') {
+      stack.push(buffer.trim());
+      buffer = '';
+    } else if (ch === '}') {
+      const selector = stack.pop();
+      if (selector !== undefined && stack.length === 0 && !selector.startsWith('@')) {
+        rules.push({
+          selectors: selector.split(',').map(s => s.trim()).filter(Boolean),
+          declarations: buffer.split(';')
+            .map(decl => decl.split(':'))
+            .filter(parts => parts.length > 1)
+            .map(([prop, ...value]) => [prop.trim().toLowerCase(), value.join(':').replace(/!important/i, '').trim()]),
+        });
+      }
+      buffer = '';
+    } else if (ch === ';' && stack.length === 0) {
+      buffer = ''; // Top-level statements such as @import
+    } else {
+      buffer += ch;
+    }
+  }
+  return rules;
+};
+
+const resolveVars = (value: string, vars: Map<string, string>, depth = 0): string => {
+  if (depth > 5 || !value.includes('var(')) return value;
+  const resolved = value.replace(/var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*(?:\([^()]*\))?[^()]*))?\)/g, (_, name, fallback) =>
+    vars.get(name) ?? fallback ?? ''
+  );
+  return resolveVars(resolved, vars, depth + 1);
+};
+
+const parseColor = (token: string): Rgba | null => {
+  const value = NAMED_COLORS[token.toLowerCase()] || token.toLowerCase();
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) hex = hex.split('').map(c => c + c).join('');
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    const n = (i: number) => parseInt(hex.slice(i, i + 2), 16);
+    return { r: n(0), g: n(2), b: n(4), a: hex.length === 8 ? n(6) / 255 : 1 };
+  }
+
+  const match = value.match(/^(rgb|hsl)a?\(([^)]*)\)$/);
+  if (!match) return null;
+  const parts = match[2].split(/[\s,/]+/).filter(Boolean).map(p => parseFloat(p));
+  if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return null;
+  const alpha = parts[3] === undefined || isNaN(parts[3]) ? 1 : parts[3] > 1 ? parts[3] / 100 : parts[3];
+
+  if (match[1] === 'rgb') {
+    return { r: parts[0], g: parts[1], b: parts[2], a: alpha };
+  }
+  // hsl → rgb
+  const h = parts[0] / 360, s = parts[1] / 100, l = parts[2] / 100;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return { r: channel(h + 1 / 3) * 255, g: channel(h) * 255, b: channel(h - 1 / 3) * 255, a: alpha };
+};
+
+const toHex = ({ r, g, b }: Rgba) =>
+  '#' + [r, g, b].map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+
+const firstColor = (value: string): Rgba | null => {
+  for (const token of value.match(COLOR_TOKEN) || []) {
+    const color = parseColor(token);
+    if (color && color.a > 0.1) return color;
+  }
+  return null;
+};
+
+const luminance = ({ r, g, b }: Rgba) => {
+  const lin = (c: number) => {
+    const v = c / 255;
+    return v <= 0.03928 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * lin(r) + 0.7152 * lin(g) + 0.0722 * lin(b);
+};
+
+const toHsl = ({ r, g, b }: Rgba) => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn), min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return { h: h * 60, s, l };
+};
+
+const distance = (a: Rgba, b: Rgba) => Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+
+/**
+ * Buckets a hex color into a named hue family
+ */
+export const colorFamily = (hex: string): ColorFamily => {
+  const color = parseColor(hex);
+  if (!color) return 'gray';
+  const { h, s, l } = toHsl(color);
+  if (s < 0.15 || l < 0.08 || l > 0.95) return 'gray';
+  if (h < 15 || h >= 345) return 'red';
+  if (h < 45) return 'orange';
+  if (h < 70) return 'yellow';
+  if (h < 165) return 'green';
+  if (h < 195) return 'cyan';
+  if (h < 255) return 'blue';
+  if (h < 290) return 'purple';
+  return 'pink';
+};
+
+// Whole-word match, so "Palatino" isn't mistaken for "Lato"
+const words = (name: string) => ` ${name.replace(/-/g, ' ').trim()} `;
+const matchesFont = (family: string, names: string[]) =>
+  names.some(name => /^[\x00-\x7f]+$/.test(name) ? words(family).includes(words(name)) : family.includes(name));
+
+/**
+ * Classifies a font-family stack by the first family it recognizes
+ */
+export const fontCategory = (stack: string): FontCategory | undefined => {
+  for (const family of stack.toLowerCase().split(',').map(f => f.trim().replace(/^['"]|['"]$/g, ''))) {
+    if (matchesFont(family, ['monospace', ...MONOSPACE_FONTS])) return 'monospace';
+    if (matchesFont(family, ['sans serif', ...SANS_FONTS])) return 'sans-serif';
+    if (matchesFont(family, ['serif', ...SERIF_FONTS])) return 'serif';
+  }
+  return undefined;
+};
+
+/**
+ * Works out a theme's colors, fonts and light/dark appearance from its stylesheet.
+ * Plain heuristics: base rules (#write, body, …) give background, text color and body font;
+ * the most frequent saturated colors elsewhere are taken as accents.
+ */
+export const analyzeThemeCss = (css: string): ThemePalette => {
+  const rules = parseRules(css);
+
+  const vars = new Map<string, string>();
+  rules.forEach(rule => rule.declarations.forEach(([prop, value]) => {
+    if (prop.startsWith('--')) vars.set(prop, value);
+  }));
+
+  // Later rules win, and more specific base selectors win over less specific ones
+  const baseValue = (props: string[], pick: (value: string) => boolean): string | undefined => {
+    for (const selector of BASE_SELECTORS) {
+      let found: string | undefined;
+      rules.filter(rule => rule.selectors.includes(selector)).forEach(rule => {
+        rule.declarations.forEach(([prop, value]) => {
+          const resolved = resolveVars(value, vars);
+          if (props.includes(prop) && pick(resolved)) found = resolved;
+        });
+      });
+      if (found) return found;
+    }
+    return undefined;
+  };
+
+  const lastValue = (selector: RegExp, prop: string): string | undefined => {
+    let found: string | undefined;
+    rules.filter(rule => rule.selectors.some(s => selector.test(s))).forEach(rule => {
+      rule.declarations.forEach(([p, value]) => {
+        if (p === prop) found = resolveVars(value, vars);
+      });
+    });
+    return found;
+  };
+
+  const backgroundValue = baseValue(['background-color', 'background'], v => !!firstColor(v));
+  const foregroundValue = baseValue(['color'], v => !!firstColor(v));
+  const background = backgroundValue ? firstColor(backgroundValue) : null;
+  const foreground = foregroundValue ? firstColor(foregroundValue) : null;
+
+  // Typora's own default is a white page, so a theme that sets nothing is light
+  const appearance = background
+    ? (luminance(background) < 0.2 ? 'dark' : 'light')
+    : foreground && luminance(foreground) > 0.5 ? 'dark' : 'light';
+
+  // Accents: frequent, saturated colors that differ from the page colors and each other
+  const counts = new Map<string, { color: Rgba; count: number }>();
+  rules.forEach(rule => rule.declarations.forEach(([prop, value]) => {
+    if (prop.startsWith('--')) return;
+    (resolveVars(value, vars).match(COLOR_TOKEN) || []).forEach(token => {
+      const color = parseColor(token);
+      if (!color || color.a < 0.5 || toHsl(color).s < 0.25) return;
+      const hex = toHex(color);
+      counts.set(hex, { color, count: (counts.get(hex)?.count || 0) + 1 });
+    });
+  }));
+  const accents: Rgba[] = [];
+  [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .forEach(({ color }) => {
+      if (accents.length >= 3) return;
+      if ([background, foreground, ...accents].some(c => c && distance(c, color) < 48)) return;
+      accents.push(color);
+    });
+
+  const fontFamily = baseValue(['font-family'], v => v.trim() !== '' && v !== 'inherit');
+  return {
+    appearance,
+    background: background ? toHex(background) : undefined,
+    foreground: foreground ? toHex(foreground) : undefined,
+    accents: accents.map(toHex),
+    fontFamily,
+    fontCategory: fontFamily ? fontCategory(fontFamily) : undefined,
+    headingFont: lastValue(HEADING_SELECTOR, 'font-family'),
+    codeFont: lastValue(CODE_SELECTOR, 'font-family'),
+  };
+};
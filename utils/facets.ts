@@ -0,0 +1,96 @@
+import { FontCategory, ThemeAppearance, ThemeGroup, ThemeItem } from '../types';
+import { ColorFamily, colorFamily } from './cssPalette';
+
+// Filters on the palette extracted from each theme's CSS; these apply per variant
+export interface StyleFilter {
+  appearance?: ThemeAppearance;
+  color?: ColorFamily;
+  font?: FontCategory;
+}
+
+export const matchesStyleFilter = (theme: ThemeItem, filter: StyleFilter): boolean => {
+  const { palette } = theme;
+  if (!filter.appearance && !filter.color && !filter.font) return true;
+  if (!palette) return false;
+  if (filter.appearance && palette.appearance !== filter.appearance) return false;
+  if (filter.font && palette.fontCategory !== filter.font) return false;
+  if (filter.color && !palette.accents.some(c => colorFamily(c) === filter.color)) return false;
+  return true;
+};
+
+export interface FacetFilters {
+  categories: string[];
+  licenses: string[];
+  authors: string[];
+  multiVariantOnly: boolean;
+  minStars?: number;
+  maxStars?: number;
+  updatedWithinMonths?: number;
+  hideNotFound: boolean;
+}
+
+// Facets whose values are listed with counts
+export type ListFacet = 'categories' | 'licenses' | 'authors';
+
+export const EMPTY_FACETS: FacetFilters = {
+  categories: [],
+  licenses: [],
+  authors: [],
+  multiVariantOnly: false,
+  hideNotFound: false,
+};
+
+export const UPDATED_WITHIN_OPTIONS = [6, 12, 24, 36]; // Months
+
+export const MONTH = 30 * 24 * 60 * 60 * 1000;
+
+// '' stands for groups without a value, e.g. repositories with no license
+const FACET_VALUES: Record<ListFacet, (group: ThemeGroup) => string[]> = {
+  categories: g => [...new Set(g.themes.map(t => t.category?.trim().toLowerCase() || ''))],
+  licenses: g => [g.stats?.license || ''],
+  authors: g => [g.themes[0].author?.trim() || g.repoOwner],
+};
+
+export const facetValues = (facet: ListFacet, group: ThemeGroup): string[] => FACET_VALUES[facet](group);
+
+export const countActiveFacets = (facets: FacetFilters): number =>
+  facets.categories.length + facets.licenses.length + facets.authors.length +
+  (facets.multiVariantOnly ? 1 : 0) +
+  (facets.minStars !== undefined || facets.maxStars !== undefined ? 1 : 0) +
+  (facets.updatedWithinMonths ? 1 : 0) +
+  (facets.hideNotFound ? 1 : 0);
+
+/**
+ * Checks a group against every facet, optionally ignoring one so its own values can be counted
+ */
+export const matchesFacets = (group: ThemeGroup, facets: FacetFilters, ignore?: ListFacet): boolean => {
+  for (const facet of ['categories', 'licenses', 'authors'] as ListFacet[]) {
+    if (facet === ignore || facets[facet].length === 0) continue;
+    if (!facetValues(facet, group).some(value => facets[facet].includes(value))) return false;
+  }
+
+  if (facets.multiVariantOnly && group.themes.length < 2) return false;
+  if (facets.hideNotFound && group.stats?.isNotFound) return false;
+
+  const stars = group.stats?.stars || 0;
+  if (facets.minStars !== undefined && stars < facets.minStars) return false;
+  if (facets.maxStars !== undefined && stars > facets.maxStars) return false;
+
+  if (facets.updatedWithinMonths) {
+    const updated = group.stats?.lastCommitAt ? new Date(group.stats.lastCommitAt).getTime() : 0;
+    if (Date.now() - updated > facets.updatedWithinMonths * MONTH) return false;
+  }
+  return true;
+};
+
+/**
+ * Counts groups per value of a list facet, given the other active facets.
+ * Values already selected stay listed even when nothing matches them anymore.
+ */
+export const countFacetValues = (groups: ThemeGroup[], facets: FacetFilters, facet: ListFacet): [string, number][] => {
+  const counts = new Map<string, number>(facets[facet].map(value => [value, 0]));
+  groups
+    .filter(g => matchesFacets(g, facets, facet))
+    .forEach(g => facetValues(facet, g).forEach(value => counts.set(value, (counts.get(value) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
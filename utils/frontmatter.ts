@@ -0,0 +1,107 @@
+import { parseDocument } from 'yaml';
+import { ThemeFrontmatter } from '../types';
+
+// Tolerates a BOM, CRLF line endings, trailing spaces after the fences and an empty block
+const FRONTMATTER_REGEX = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+const STRING_FIELDS = ['title', 'author', 'homepage', 'download', 'thumbnail', 'description', 'category'] as const;
+const LIST_FIELDS = ['tags', 'screenshots'] as const;
+const URL_FIELDS = ['homepage', 'download'] as const;
+
+export interface FrontmatterResult {
+  data: ThemeFrontmatter;
+  body: string;       // Markdown content after the frontmatter block
+  warnings: string[]; // Problems found in this file, empty when everything parsed cleanly
+}
+
+const toStringValue = (value: unknown): string | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value instanceof Date) return value.toISOString();
+  return undefined;
+};
+
+const toListValue = (value: unknown): string[] | undefined => {
+  if (value === null || value === undefined) return undefined;
+  // Accept both `tags: [a, b]` and the shorthand `tags: a, b`
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  const list = items.map(toStringValue).filter((item): item is string => !!item);
+  return list.length > 0 ? list : undefined;
+};
+
+// Last-resort reader for blocks that are not valid YAML (e.g. unquoted "key: a: b" values)
+const parseLooseLines = (block: string): Record<string, unknown> => {
+  const data: Record<string, unknown> = {};
+  block.split(/\r?\n/).forEach(line => {
+    const idx = line.indexOf(':');
+    if (idx <= 0 || /^\s|^#/.test(line)) return;
+    let value = line.slice(idx + 1).trim();
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1);
+    }
+    data[line.slice(0, idx).trim()] = value;
+  });
+  return data;
+};
+
+/**
+ * Parses the YAML frontmatter of a theme post into a validated ThemeFrontmatter
+ */
+export const parseFrontmatter = (text: string): FrontmatterResult => {
+  const warnings: string[] = [];
+  const match = text.match(FRONTMATTER_REGEX);
+
+  if (!match) {
+    return {
+      data: { title: '' },
+      body: text.replace(/^\uFEFF/, ''),
+      warnings: ['No frontmatter block found'],
+    };
+  }
+
+  const body = text.slice(match[0].length);
+  // Posts written by hand sometimes repeat a key; keep the last value like Jekyll does
+  const doc = parseDocument(match[1] || '', { uniqueKeys: false });
+  doc.errors.forEach(err => warnings.push(`YAML error: ${err.message.split('\n')[0]}`));
+  doc.warnings.forEach(warn => warnings.push(`YAML warning: ${warn.message.split('\n')[0]}`));
+
+  const raw = doc.errors.length === 0 ? doc.toJS() : parseLooseLines(match[1] || '');
+  if (raw !== null && (typeof raw !== 'object' || Array.isArray(raw))) {
+    warnings.push('Frontmatter is not a key/value mapping');
+  }
+  const source: Record<string, unknown> = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {};
+
+  const data: ThemeFrontmatter = { title: '' };
+
+  STRING_FIELDS.forEach(key => {
+    if (!(key in source)) return;
+    const value = toStringValue(source[key]);
+    if (value === undefined && source[key] !== null && source[key] !== '') {
+      warnings.push(`Field "${key}" should be a string`);
+    }
+    if (value !== undefined) data[key] = value;
+  });
+
+  LIST_FIELDS.forEach(key => {
+    if (!(key in source)) return;
+    const value = toListValue(source[key]);
+    if (value) data[key] = value;
+  });
+
+  URL_FIELDS.forEach(key => {
+    const value = data[key];
+    if (!value) return;
+    try {
+      new URL(value);
+    } catch (e) {
+      warnings.push(`Field "${key}" is not a valid URL: ${value}`);
+    }
+  });
+
+  if (!data.title) {
+    warnings.push('Missing "title"');
+  }
+
+  return { data, body, warnings };
+};
@@ -0,0 +1,147 @@
+import { FontCategory, SortOption, ThemeAppearance } from '../types';
+import { COLOR_FAMILIES, ColorFamily } from './cssPalette';
+import { EMPTY_FACETS, FacetFilters, StyleFilter, UPDATED_WITHIN_OPTIONS } from './facets';
+
+// Everything about the gallery view that a link should reproduce
+export interface GalleryState {
+  search: string;
+  sortOption: SortOption;
+  sortOrder: 'asc' | 'desc';
+  trendingDays: number;
+  styleFilter: StyleFilter;
+  facets: FacetFilters;
+}
+
+export const DEFAULT_GALLERY_STATE: GalleryState = {
+  search: '',
+  sortOption: SortOption.STARS,
+  sortOrder: 'desc',
+  trendingDays: 30,
+  styleFilter: {},
+  facets: EMPTY_FACETS,
+};
+
+const APPEARANCES: ThemeAppearance[] = ['light', 'dark'];
+const FONT_CATEGORIES: FontCategory[] = ['serif', 'sans-serif', 'monospace'];
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[]): T | undefined =>
+  allowed.includes(value as T) ? value as T : undefined;
+
+const toCount = (value: string | null): number | undefined => {
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+};
+
+const toList = (value: string | null): string[] => (value ? value.split(',') : []);
+
+/**
+ * Query parameter mapping, one entry per piece of state.
+ * New filters only need an entry here to become shareable.
+ */
+const PARAMS: {
+  key: string;
+  read: (value: string | null, state: GalleryState) => GalleryState;
+  write: (state: GalleryState) => string | undefined; // undefined leaves the parameter out
+}[] = [
+  {
+    key: 'q',
+    read: (value, state) => ({ ...state, search: value || '' }),
+    write: state => state.search || undefined,
+  },
+  {
+    key: 'sort',
+    read: (value, state) => ({ ...state, sortOption: oneOf(value, Object.values(SortOption)) || state.sortOption }),
+    write: state => (state.sortOption !== DEFAULT_GALLERY_STATE.sortOption ? state.sortOption : undefined),
+  },
+  {
+    key: 'order',
+    read: (value, state) => ({ ...state, sortOrder: oneOf(value, ['asc', 'desc'] as const) || state.sortOrder }),
+    write: state => (state.sortOrder !== DEFAULT_GALLERY_STATE.sortOrder ? state.sortOrder : undefined),
+  },
+  {
+    key: 'days',
+    read: (value, state) => ({ ...state, trendingDays: toCount(value) || state.trendingDays }),
+    write: state => (state.trendingDays !== DEFAULT_GALLERY_STATE.trendingDays ? String(state.trendingDays) : undefined),
+  },
+  {
+    key: 'appearance',
+    read: (value, state) => ({ ...state, styleFilter: { ...state.styleFilter, appearance: oneOf(value, APPEARANCES) } }),
+    write: state => state.styleFilter.appearance,
+  },
+  {
+    key: 'color',
+    read: (value, state) => ({ ...state, styleFilter: { ...state.styleFilter, color: oneOf<ColorFamily>(value, COLOR_FAMILIES) } }),
+    write: state => state.styleFilter.color,
+  },
+  {
+    key: 'font',
+    read: (value, state) => ({ ...state, styleFilter: { ...state.styleFilter, font: oneOf(value, FONT_CATEGORIES) } }),
+    write: state => state.styleFilter.font,
+  },
+  ...([['category', 'categories'], ['license', 'licenses'], ['author', 'authors']] as const).map(([key, facet]) => ({
+    key,
+    read: (value: string | null, state: GalleryState) => ({ ...state, facets: { ...state.facets, [facet]: toList(value) } }),
+    write: (state: GalleryState) => state.facets[facet].join(',') || undefined,
+  })),
+  {
+    key: 'multi',
+    read: (value, state) => ({ ...state, facets: { ...state.facets, multiVariantOnly: value === '1' } }),
+    write: state => (state.facets.multiVariantOnly ? '1' : undefined),
+  },
+  {
+    key: 'found',
+    read: (value, state) => ({ ...state, facets: { ...state.facets, hideNotFound: value === '1' } }),
+    write: state => (state.facets.hideNotFound ? '1' : undefined),
+  },
+  {
+    key: 'minStars',
+    read: (value, state) => ({ ...state, facets: { ...state.facets, minStars: toCount(value) } }),
+    write: state => state.facets.minStars?.toString(),
+  },
+  {
+    key: 'maxStars',
+    read: (value, state) => ({ ...state, facets: { ...state.facets, maxStars: toCount(value) } }),
+    write: state => state.facets.maxStars?.toString(),
+  },
+  {
+    key: 'updated',
+    read: (value, state) => {
+      const months = toCount(value);
+      return { ...state, facets: { ...state.facets, updatedWithinMonths: months && UPDATED_WITHIN_OPTIONS.includes(months) ? months : undefined } };
+    },
+    write: state => state.facets.updatedWithinMonths?.toString(),
+  },
+];
+
+/**
+ * Whether the query string describes a gallery view; if so it replaces the stored preferences entirely
+ */
+export const hasGalleryParams = (params: URLSearchParams): boolean => PARAMS.some(({ key }) => params.has(key));
+
+/**
+ * Reads a gallery view from the query string; missing or invalid parameters fall back to the defaults
+ */
+export const readGalleryParams = (params: URLSearchParams): GalleryState =>
+  PARAMS.reduce((state, { key, read }) => read(params.get(key), state), DEFAULT_GALLERY_STATE);
+
+/**
+ * Writes the parts of a gallery view that differ from the defaults.
+ * Parameters the gallery doesn't know about are kept.
+ */
+export const writeGalleryParams = (state: GalleryState, current?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(current);
+  PARAMS.forEach(({ key, write }) => {
+    const value = write(state);
+    if (value === undefined) params.delete(key);
+    else params.set(key, value);
+  });
+  return params;
+};
+
+/**
+ * Gallery link for a view that differs from the defaults only in the given parts
+ */
+export const galleryPath = (state: Partial<GalleryState>): string => {
+  const query = writeGalleryParams({ ...DEFAULT_GALLERY_STATE, ...state }).toString();
+  return query ? `/?${query}` : '/';
+};
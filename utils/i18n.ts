@@ -3,12 +3,64 @@ export type Language = 'en' | 'zh';
 export const translations = {
     en: {
         title: 'Typora Theme Gallery',
-        searchPlaceholder: 'Search themes, authors...',
+        searchPlaceholder: 'Search themes, or try author: stars:>100 dark',
         sortStars: 'Most Stars',
         sortUpdated: 'Recently Updated',
         sortName: 'Alphabetical',
+        sortTrending: 'Trending',
+        sortRelevance: 'Best Match',
+        trendingWindow: 'Stars gained in',
+        starHistory: 'Star history',
+        days: 'd',
         sortAsc: 'Ascending',
         sortDesc: 'Descending',
+        filters: 'Filters',
+        appearance: 'Appearance',
+        appearanceLight: 'Light',
+        appearanceDark: 'Dark',
+        accentColor: 'Color',
+        fontType: 'Body font',
+        fontSerif: 'Serif',
+        fontSans: 'Sans-serif',
+        fontMono: 'Monospace',
+        anyOption: 'Any',
+        styleFiltersUnavailable: 'Appearance, font and color filters need palette data. The current theme data has none; generate it with --palette to enable them.',
+        clearFilters: 'Clear filters',
+        facetCategory: 'Category',
+        facetLicense: 'License',
+        facetAuthor: 'Author',
+        variantsAndStatus: 'Repository',
+        multiVariantOnly: 'Multiple variants only',
+        hideNotFound: 'Hide missing repositories',
+        starRange: 'Stars',
+        updatedWithin: 'Updated within',
+        months: 'months',
+        showMore: 'Show more',
+        showLess: 'Show less',
+        queryUnknown: 'is not a known qualifier.',
+        queryDidYouMean: 'Did you mean',
+        queryEmpty: 'needs a value.',
+        queryNumber: 'expects a number such as >200, <=10 or 10..50.',
+        queryDate: 'expects a date such as <2023, >=2022-06 or 2020..2022.',
+        queryOption: 'expects one of:',
+        queryQuote: 'has an unclosed quote.',
+        queryNeedsPalette: 'is ignored: the current theme data has no palettes.',
+        queryQualifiers: {
+            author: 'Theme author or repository owner',
+            repo: 'Repository, e.g. owner/name',
+            title: 'Theme title',
+            category: 'Theme category',
+            tag: 'Theme tag',
+            license: 'Repository license, e.g. MIT',
+            stars: 'Star count: >200, 10..50',
+            issues: 'Open issues: <5',
+            variants: 'Number of variants: >1',
+            updated: 'Last commit: <2023, >=2022-06',
+            published: 'Theme post date: 2021, <2020',
+            is: 'dark, light or multi',
+            font: 'Body font: serif, sans or mono',
+            color: 'Accent color: blue, red, …',
+        },
         refreshFull: 'Full Refresh',
         refreshFullDesc: 'Reload list & stats',
         refreshStats: 'Update Stats',
@@ -28,6 +80,7 @@ export const translations = {
         addToken: 'Add Token to fix',
         noThemes: 'No themes found',
         noThemesDesc: 'Try adjusting your search terms.',
+        fullTextUnavailable: 'Full-text search is off: only names, authors and descriptions are searched.',
         loadError: 'Unable to load themes',
         retry: 'Retry',
         refreshTooltip: 'Data is not real-time, updated every 12 hours (9 AM & 9 PM).',
@@ -37,21 +90,174 @@ export const translations = {
         dataSourced: 'Data sourced from',
         pin: 'Pin Theme to Top',
         unpin: 'Unpin Theme',
+        collections: 'Collections',
+        stats: 'Statistics',
+        addToCollection: 'Add to Collection',
+        pinnedCollection: 'Pinned',
+        newCollectionPlaceholder: 'New collection name',
+        createCollection: 'Create',
+        manageCollections: 'Manage collections →',
+        back: 'Back',
+        collectionEmpty: 'No themes yet. Add some from the gallery.',
+        removeFromCollection: 'Remove from collection',
+        notInData: 'Not in the current data:',
+        collectionThemeCount: '{count} themes',
+        collectionName: 'Collection name',
+        untitledCollection: 'Untitled',
+        copyShareLink: 'Copy share link',
+        copyThisLink: 'Copy this link',
+        shareLinkCopied: 'Share link for "{name}" copied.',
+        deleteCollection: 'Delete collection',
+        deleteCollectionConfirm: 'Delete the collection "{name}"?',
+        importCollections: 'Import',
+        exportCollections: 'Export',
+        collectionsImported: 'Imported {count} collections.',
+        sharedCollection: 'Shared collection',
+        saveSharedCollection: 'Save to my collections',
+        sharedCollectionSaved: 'Saved to your collections',
         viewHomepage: 'View Homepage',
-        viewGithub: 'View Source on GitHub',
+        viewSource: 'View source on',
         download: 'Download Theme',
+        installPackage: 'Get install package',
+        installPackageFailed: 'Could not build the package',
+        installPackageShort: 'Install package',
+        installPackageHint: 'Zip of {title} ready to drop into Typora\'s theme folder',
+        viewOn: 'View on {forge}',
+        loadingThemeDetails: 'Loading theme details...',
+        error: 'Error',
+        themeNotFound: 'Theme not found',
+        noMarkdownFile: 'No markdown file associated with this theme.',
+        backToGallery: 'Back to Gallery',
+        tabDescription: 'Description',
+        tabLivePreview: 'Live preview',
+        sampleDocument: 'Sample document',
+        myDocument: 'My document',
+        openMarkdownFile: 'Open .md',
+        clearDocument: 'Clear',
+        documentPlaceholder: 'Paste Markdown here or drop a .md file…',
+        notMarkdownFile: '{name} is not a Markdown file',
+        documentTooLarge: 'Too large to remember; it will be gone when you leave this page.',
         noPreview: 'No Preview',
         unknown: 'Unknown',
-        themesCount: 'Themes'
+        themesCount: 'Themes',
+        dataGeneratedAt: 'Data updated',
+        apiQuota: 'GitHub API',
+        resetsIn: 'resets in',
+        minutes: 'min',
+        tokenInvalid: 'GitHub rejected this token.',
+        tokenReplace: 'Paste a new token to replace it',
+        tokenSession: 'This session only',
+        tokenPersist: 'Remember on this device',
+        tokenLimit: 'Token accepted. Requests per hour:',
+        clearToken: 'Remove',
+        addToCompare: 'Add to comparison',
+        removeFromCompare: 'Remove from comparison',
+        compare: 'Compare',
+        compareHint: 'Select 2–4 themes to compare',
+        clearCompare: 'Clear',
+        compareTitle: 'Compare themes',
+        compareSelect: 'Select two to four themes in the gallery to compare them.',
+        compareNotFound: 'Not found:',
+        compareStars: 'Stars',
+        compareLicense: 'License',
+        compareLastCommit: 'Last commit',
+        compareOpenIssues: 'Open issues',
+        compareVariants: 'Variants',
+        compareRepository: 'Repository',
+        comparePreview: 'Preview',
+        authorTotalStars: 'Total stars',
+        authorThemes: 'Themes',
+        authorThemeCount: '{count} ({variants} variants)',
+        authorLastActive: 'Last active',
+        authorNoThemes: 'No themes by {name} in the current data.',
+        authorAlsoSignsAs: 'Also signs as {names}',
+        authorProfile: '{forge} profile',
+        authorThemesByActivity: 'Themes by recent activity',
+        variantCount: '{count} variants',
+        statsRepositories: 'Repositories',
+        statsVariants: 'Theme variants',
+        statsTotalStars: 'Total stars',
+        statsNoData: 'No data',
+        statsShowInGallery: 'Show in gallery',
+        statsPublished: 'Themes published per year',
+        statsPublishedNote: 'Counts theme posts by the date in their file name',
+        statsActivity: 'Repository activity',
+        statsActivityNote: 'By the date of the last commit',
+        statsStars: 'Stars',
+        statsStarsNote: 'Repositories per star range',
+        statsLicenses: 'Licenses',
+        statsAuthors: 'Top authors',
+        statsAuthorsNote: 'By number of theme repositories',
+        statsCategories: 'Categories',
+        statsCategoriesNote: 'Repositories with a theme in each category',
+        statsUpdatedRecently: 'Updated in the last {years} years',
+        statsInactive: 'Inactive for over {years} years',
+        statsNoCommitData: 'No commit data',
+        statsNoLicense: 'No license',
+        statsOtherLicenses: 'Other licenses',
+        statsUncategorized: 'Uncategorized',
+        statsOtherCategories: 'Other categories'
     },
     zh: {
         title: 'Typora 主题画廊',
-        searchPlaceholder: '搜索主题、作者...',
+        searchPlaceholder: '搜索主题，或试试 author: stars:>100 dark',
         sortStars: '按星标排序',
         sortUpdated: '最近更新',
         sortName: '按名称排序',
+        sortTrending: '趋势上升',
+        sortRelevance: '最佳匹配',
+        trendingWindow: '统计区间',
+        starHistory: '星标历史',
+        days: '天',
         sortAsc: '正序',
         sortDesc: '倒序',
+        filters: '筛选',
+        appearance: '外观',
+        appearanceLight: '亮色',
+        appearanceDark: '暗色',
+        accentColor: '颜色',
+        fontType: '正文字体',
+        fontSerif: '衬线',
+        fontSans: '无衬线',
+        fontMono: '等宽',
+        anyOption: '不限',
+        styleFiltersUnavailable: '外观、字体和颜色筛选需要配色数据，当前主题数据中没有。使用 --palette 生成数据后即可使用。',
+        clearFilters: '清除筛选',
+        facetCategory: '分类',
+        facetLicense: '许可证',
+        facetAuthor: '作者',
+        variantsAndStatus: '仓库',
+        multiVariantOnly: '仅含多个变体',
+        hideNotFound: '隐藏已失效的仓库',
+        starRange: '星标数',
+        updatedWithin: '最近更新于',
+        months: '个月内',
+        showMore: '显示更多',
+        showLess: '收起',
+        queryUnknown: '不是可用的限定符。',
+        queryDidYouMean: '你是否想输入',
+        queryEmpty: '缺少值。',
+        queryNumber: '需要数字，例如 >200、<=10 或 10..50。',
+        queryDate: '需要日期，例如 <2023、>=2022-06 或 2020..2022。',
+        queryOption: '可选值：',
+        queryQuote: '的引号未闭合。',
+        queryNeedsPalette: '已忽略：当前主题数据不含配色信息。',
+        queryQualifiers: {
+            author: '主题作者或仓库所有者',
+            repo: '仓库，例如 owner/name',
+            title: '主题名称',
+            category: '主题分类',
+            tag: '主题标签',
+            license: '仓库许可证，例如 MIT',
+            stars: '星标数：>200、10..50',
+            issues: '未关闭的 issue：<5',
+            variants: '变体数量：>1',
+            updated: '最后提交：<2023、>=2022-06',
+            published: '主题发布日期：2021、<2020',
+            is: 'dark、light 或 multi',
+            font: '正文字体：serif、sans 或 mono',
+            color: '强调色：blue、red 等',
+        },
         refreshFull: '完整刷新',
         refreshFullDesc: '重新加载列表和统计信息',
         refreshStats: '更新统计信息',
@@ -71,6 +277,7 @@ export const translations = {
         addToken: '添加令牌以修复',
         noThemes: '未找到主题',
         noThemesDesc: '尝试调整您的搜索词。',
+        fullTextUnavailable: '未启用全文搜索：仅搜索名称、作者和描述。',
         loadError: '无法加载主题',
         retry: '重试',
         refreshTooltip: '数据并不是实时的而是12小时更新一次，早、晚9点各更新一次',
@@ -80,11 +287,112 @@ export const translations = {
         dataSourced: '数据来源',
         pin: '置顶主题',
         unpin: '取消置顶',
+        collections: '收藏夹',
+        stats: '统计',
+        addToCollection: '加入收藏夹',
+        pinnedCollection: '置顶',
+        newCollectionPlaceholder: '新收藏夹名称',
+        createCollection: '新建',
+        manageCollections: '管理收藏夹 →',
+        back: '返回',
+        collectionEmpty: '还没有主题，可以在画廊中添加。',
+        removeFromCollection: '从收藏夹移除',
+        notInData: '当前数据中没有：',
+        collectionThemeCount: '{count} 个主题',
+        collectionName: '收藏夹名称',
+        untitledCollection: '未命名',
+        copyShareLink: '复制分享链接',
+        copyThisLink: '复制此链接',
+        shareLinkCopied: '已复制“{name}”的分享链接。',
+        deleteCollection: '删除收藏夹',
+        deleteCollectionConfirm: '删除收藏夹“{name}”？',
+        importCollections: '导入',
+        exportCollections: '导出',
+        collectionsImported: '已导入 {count} 个收藏夹。',
+        sharedCollection: '分享的收藏夹',
+        saveSharedCollection: '保存到我的收藏夹',
+        sharedCollectionSaved: '已保存到你的收藏夹',
         viewHomepage: '查看主页',
-        viewGithub: '查看 GitHub 源码',
+        viewSource: '查看源码：',
         download: '下载主题',
+        installPackage: '获取安装包',
+        installPackageFailed: '无法生成安装包',
+        installPackageShort: '安装包',
+        installPackageHint: '{title} 的压缩包，可直接解压到 Typora 的主题文件夹',
+        viewOn: '在 {forge} 上查看',
+        loadingThemeDetails: '正在加载主题详情...',
+        error: '出错了',
+        themeNotFound: '未找到该主题',
+        noMarkdownFile: '此主题没有对应的 Markdown 文件。',
+        backToGallery: '返回主题库',
+        tabDescription: '介绍',
+        tabLivePreview: '实时预览',
+        sampleDocument: '示例文档',
+        myDocument: '我的文档',
+        openMarkdownFile: '打开 .md',
+        clearDocument: '清空',
+        documentPlaceholder: '在此粘贴 Markdown，或拖入 .md 文件…',
+        notMarkdownFile: '{name} 不是 Markdown 文件',
+        documentTooLarge: '文档过大，无法保存；离开此页面后内容将丢失。',
         noPreview: '无预览',
         unknown: '未知',
-        themesCount: '主题数量'
+        themesCount: '主题数量',
+        dataGeneratedAt: '数据更新于',
+        apiQuota: 'GitHub API',
+        resetsIn: '重置于',
+        minutes: '分钟后',
+        tokenInvalid: 'GitHub 拒绝了此令牌。',
+        tokenReplace: '粘贴新令牌以替换',
+        tokenSession: '仅本次会话',
+        tokenPersist: '在此设备上记住',
+        tokenLimit: '令牌有效，每小时请求数：',
+        clearToken: '移除',
+        addToCompare: '加入对比',
+        removeFromCompare: '移出对比',
+        compare: '对比',
+        compareHint: '选择 2–4 个主题进行对比',
+        clearCompare: '清空',
+        compareTitle: '主题对比',
+        compareSelect: '请在主题库中选择 2–4 个主题进行对比。',
+        compareNotFound: '未找到：',
+        compareStars: '星标',
+        compareLicense: '许可证',
+        compareLastCommit: '最近提交',
+        compareOpenIssues: '未关闭 Issue',
+        compareVariants: '变体',
+        compareRepository: '仓库',
+        comparePreview: '预览',
+        authorTotalStars: '总星标',
+        authorThemes: '主题',
+        authorThemeCount: '{count}（{variants} 个变体）',
+        authorLastActive: '最近活跃',
+        authorNoThemes: '当前数据中没有 {name} 的主题。',
+        authorAlsoSignsAs: '也署名为 {names}',
+        authorProfile: '{forge} 主页',
+        authorThemesByActivity: '按最近活跃排序的主题',
+        variantCount: '{count} 个变体',
+        statsRepositories: '仓库',
+        statsVariants: '主题变体',
+        statsTotalStars: '总星标',
+        statsNoData: '暂无数据',
+        statsShowInGallery: '在主题库中查看',
+        statsPublished: '每年发布的主题',
+        statsPublishedNote: '按主题文章文件名中的日期统计',
+        statsActivity: '仓库活跃度',
+        statsActivityNote: '按最近一次提交的日期',
+        statsStars: '星标',
+        statsStarsNote: '各星标区间的仓库数',
+        statsLicenses: '许可证',
+        statsAuthors: '主要作者',
+        statsAuthorsNote: '按主题仓库数量',
+        statsCategories: '分类',
+        statsCategoriesNote: '包含各分类主题的仓库数',
+        statsUpdatedRecently: '近 {years} 年内有更新',
+        statsInactive: '超过 {years} 年未更新',
+        statsNoCommitData: '无提交数据',
+        statsNoLicense: '无许可证',
+        statsOtherLicenses: '其他许可证',
+        statsUncategorized: '未分类',
+        statsOtherCategories: '其他分类'
     }
 };
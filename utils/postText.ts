@@ -0,0 +1,22 @@
+// Longer posts are cut off; the opening paragraphs describe a theme's features anyway
+const MAX_POST_TEXT = 8000;
+
+/**
+ * Reduces a post's Markdown body to searchable plain text: no markup, code blocks, images or Liquid tags
+ */
+export const postToPlainText = (body: string): string => {
+  const text = body
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/\{%[\s\S]*?%\}|\{\{[\s\S]*?\}\}/g, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*~`]+/g, '')
+    .replace(/(^|\W)_+|_+(?=\W|$)/g, '$1') // Emphasis underscores, but not snake_case words
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > MAX_POST_TEXT ? text.slice(0, MAX_POST_TEXT) : text;
+};
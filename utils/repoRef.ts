@@ -0,0 +1,97 @@
+import { ThemeGroup } from '../types';
+
+export type ForgeId = 'github' | 'gitlab' | 'gitee' | 'codeberg';
+
+// Groups whose homepage is missing or on a host we can't query
+export type RepoForge = ForgeId | 'unknown';
+
+export interface RepoRef {
+  forge: RepoForge;
+  host: string; // Canonical hostname, e.g. "gitee.com"
+  owner: string;
+  repo: string;
+}
+
+interface ForgeInfo {
+  id: ForgeId;
+  label: string;
+  host: string;
+  aliases: string[];
+  nestedOwners: boolean; // GitLab allows nested groups: group/subgroup/project
+}
+
+const FORGES: ForgeInfo[] = [
+  { id: 'github', label: 'GitHub', host: 'github.com', aliases: ['www.github.com'], nestedOwners: false },
+  { id: 'gitlab', label: 'GitLab', host: 'gitlab.com', aliases: ['www.gitlab.com'], nestedOwners: true },
+  { id: 'gitee', label: 'Gitee', host: 'gitee.com', aliases: ['www.gitee.com'], nestedOwners: false },
+  { id: 'codeberg', label: 'Codeberg', host: 'codeberg.org', aliases: ['www.codeberg.org'], nestedOwners: false },
+];
+
+export const DEFAULT_HOST = 'github.com';
+
+const findForge = (host: string) => FORGES.find(f => f.host === host || f.aliases.includes(host));
+
+/**
+ * Parses a repository URL on any supported forge into a RepoRef
+ */
+export const parseRepoUrl = (url?: string): RepoRef | null => {
+  if (!url) return null;
+  try {
+    let cleanUrl = url.trim();
+    if (cleanUrl.endsWith('.git')) cleanUrl = cleanUrl.slice(0, -4);
+    if (cleanUrl.endsWith('/')) cleanUrl = cleanUrl.slice(0, -1);
+
+    const urlObj = new URL(cleanUrl);
+    const forge = findForge(urlObj.hostname.toLowerCase());
+    if (!forge) return null;
+
+    let segments = urlObj.pathname.split('/').filter(Boolean);
+    if (forge.nestedOwners) {
+      // Everything after "/-/" is a page inside the project (tree, blob, ...)
+      const separator = segments.indexOf('-');
+      if (separator !== -1) segments = segments.slice(0, separator);
+    } else {
+      segments = segments.slice(0, 2);
+    }
+
+    if (segments.length >= 2) {
+      return {
+        forge: forge.id,
+        host: forge.host,
+        owner: segments.slice(0, -1).join('/'),
+        repo: segments[segments.length - 1],
+      };
+    }
+  } catch (e) {
+    return null;
+  }
+  return null;
+};
+
+/**
+ * Builds the RepoRef of a group; data without a host predates multi-forge support and is GitHub
+ */
+export const groupRepoRef = (group: Pick<ThemeGroup, 'repoOwner' | 'repoName' | 'repoHost'>): RepoRef => {
+  const forge = findForge(group.repoHost || DEFAULT_HOST);
+  if (!forge || group.repoOwner === 'unknown') {
+    return { forge: 'unknown', host: group.repoHost || '', owner: group.repoOwner, repo: group.repoName };
+  }
+  return { forge: forge.id, host: forge.host, owner: group.repoOwner, repo: group.repoName };
+};
+
+/**
+ * Whether the group points at a repository on a supported forge
+ */
+export const hasRepository = (ref: RepoRef): boolean => ref.forge !== 'unknown';
+
+/**
+ * Group ids stay "owner/repo" on GitHub so existing pins and links keep working
+ */
+export const repoGroupId = (ref: Pick<RepoRef, 'host' | 'owner' | 'repo'>): string =>
+  ref.host === DEFAULT_HOST ? `${ref.owner}/${ref.repo}` : `${ref.host}/${ref.owner}/${ref.repo}`;
+
+export const forgeLabel = (ref: RepoRef): string => (hasRepository(ref) && findForge(ref.host)?.label) || '';
+
+export const repoUrl = (ref: RepoRef): string => `https://${ref.host}/${ref.owner}/${ref.repo}`;
+
+export const ownerUrl = (ref: RepoRef): string => `https://${ref.host}/${ref.owner}`;
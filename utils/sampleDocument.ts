@@ -0,0 +1,47 @@
+/**
+ * Sample document used by the live preview; covers the elements Typora themes usually style
+ */
+export const SAMPLE_DOCUMENT = `# Typora Theme Preview
+
+This paragraph has **bold**, *italic*, ~~strikethrough~~, \`inline code\` and a [link](https://typora.io).
+Typora themes style every block below, so this is a quick way to judge one.
+
+## Heading 2
+
+### Heading 3
+
+#### Heading 4
+
+> A blockquote. Themes often give it a colored border or background.
+>
+> — Someone wise
+
+- Unordered list item
+- Another item
+  - Nested item
+- [x] Finished task
+- [ ] Open task
+
+1. Ordered list item
+2. Second item
+3. Third item
+
+| Feature | Supported | Notes |
+| :------ | :-------: | ----: |
+| Tables | Yes | With alignment |
+| Code | Yes | Highlighted |
+| Images | Yes | Scaled to fit |
+
+\`\`\`javascript
+// A fenced code block
+function greet(name) {
+  return \`Hello, \${name}!\`;
+}
+\`\`\`
+
+---
+
+![Sample image](https://picsum.photos/800/300)
+
+A closing paragraph with a longer line of text so you can see how line height, paragraph spacing and font rendering work together in this theme.
+`;
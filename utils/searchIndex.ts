@@ -0,0 +1,212 @@
+import { pinyin } from 'pinyin-pro';
+import { MatchHighlights, PostTextIndex, TextSnippet, ThemeGroup, ThemeItem } from '../types';
+import { editDistance } from './searchQuery';
+
+type Field = keyof MatchHighlights;
+
+// Title matches count most, then author, then description
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, author: 2, description: 1 };
+const FIELDS = Object.keys(FIELD_WEIGHTS) as Field[];
+
+// A term found only in the post body counts for less than one in the description
+const BODY_WEIGHT = 0.6;
+const SNIPPET_BEFORE = 40; // Characters of context around the first body match
+const SNIPPET_LENGTH = 160;
+
+// Relative quality of each kind of match
+const EXACT = 1.5;
+const WORD_START = 1.2;
+const SUBSTRING = 1;
+const PINYIN = 0.9;
+const INITIALS = 0.7;
+const FUZZY = 0.5;
+
+// Bare words that also match a theme's light/dark appearance
+const APPEARANCE_WORDS = ['dark', 'light'];
+
+const CJK = /[\u3400-\u9fff]/;
+
+interface IndexedField {
+  text: string; // Lowercased
+  words: { word: string; start: number; end: number }[];
+  // Only for fields with Chinese characters
+  pinyin?: string;   // One syllable per character, joined
+  initials?: string; // First letter of every syllable, one per character
+  offsets?: number[]; // Start of each character's syllable in `pinyin`
+}
+
+export interface IndexedTheme {
+  themeId: string;
+  fields: Partial<Record<Field, IndexedField>>;
+  appearance?: string;
+  body?: { text: string; lower: string };
+}
+
+export type SearchIndex = Map<string, IndexedTheme>;
+
+export interface ThemeMatch {
+  score: number;
+  highlights: MatchHighlights;
+  snippet?: TextSnippet;
+}
+
+const indexField = (value?: string): IndexedField | undefined => {
+  if (!value) return undefined;
+  const text = value.toLowerCase();
+  const field: IndexedField = {
+    text,
+    words: [...text.matchAll(/[\p{L}\p{N}]+/gu)].map(m => ({ word: m[0], start: m.index!, end: m.index! + m[0].length })),
+  };
+
+  if (CJK.test(text)) {
+    const syllables = pinyin(text, { toneType: 'none', type: 'array' }).map(s => s.toLowerCase());
+    // pinyin-pro returns one entry per character; bail out on anything else rather than mis-highlight
+    if (syllables.length === text.length) {
+      field.pinyin = syllables.join('');
+      field.initials = syllables.map(s => s[0] || ' ').join('');
+      let offset = 0;
+      field.offsets = syllables.map(s => {
+        const start = offset;
+        offset += s.length;
+        return start;
+      });
+    }
+  }
+  return field;
+};
+
+/**
+ * Indexes every variant's searchable fields, including pinyin for Chinese text,
+ * and its post body when a full-text index is available
+ */
+export const buildSearchIndex = (groups: ThemeGroup[], postTexts?: PostTextIndex | null): SearchIndex => {
+  const index: SearchIndex = new Map();
+  groups.forEach(g => g.themes.forEach(theme => {
+    const body = postTexts?.[theme.id];
+    index.set(theme.id, {
+      themeId: theme.id,
+      fields: {
+        title: indexField(theme.title),
+        author: indexField(theme.author || g.repoOwner),
+        description: indexField(theme.description),
+      },
+      appearance: theme.palette?.appearance,
+      body: typeof body === 'string' && body ? { text: body, lower: body.toLowerCase() } : undefined,
+    });
+  }));
+  return index;
+};
+
+/**
+ * Best match of one term in one field: its quality and the character range to highlight
+ */
+const matchField = (field: IndexedField, term: string): { quality: number; range: [number, number] } | null => {
+  const { text } = field;
+
+  if (text === term) return { quality: EXACT, range: [0, text.length] };
+
+  const at = text.indexOf(term);
+  if (at >= 0) {
+    const atWordStart = at === 0 || !/[\p{L}\p{N}]/u.test(text[at - 1]);
+    return { quality: atWordStart ? WORD_START : SUBSTRING, range: [at, at + term.length] };
+  }
+
+  // A single letter would match every character whose syllable starts with it
+  if (field.pinyin && field.offsets && /^[a-z]{2,}$/.test(term)) {
+    // Full pinyin, starting on a syllable: "yejian" finds 夜间
+    const start = field.offsets.findIndex(offset => field.pinyin!.startsWith(term, offset));
+    if (start >= 0) {
+      const endOffset = field.offsets[start] + term.length;
+      let end = start + 1;
+      while (end < field.offsets.length && field.offsets[end] < endOffset) end++;
+      return { quality: PINYIN, range: [start, end] };
+    }
+    // Initials: "yj" finds 夜间
+    const initialsAt = field.initials!.indexOf(term);
+    if (initialsAt >= 0) {
+      return { quality: INITIALS, range: [initialsAt, initialsAt + term.length] };
+    }
+  }
+
+  // Typos: allow one edit in mid-length words and two in long ones, also against word prefixes
+  if (term.length >= 4) {
+    const allowed = term.length >= 8 ? 2 : 1;
+    let best: { distance: number; start: number; end: number } | null = null;
+    for (const { word, start, end } of field.words) {
+      const distance = Math.min(editDistance(term, word), editDistance(term, word.slice(0, term.length)));
+      if (distance <= allowed && (!best || distance < best.distance)) best = { distance, start, end };
+    }
+    if (best) return { quality: FUZZY - 0.1 * best.distance, range: [best.start, best.end] };
+  }
+
+  return null;
+};
+
+/**
+ * Cuts an excerpt around the first body match and marks every body term inside it
+ */
+const buildSnippet = (body: { text: string; lower: string }, terms: string[]): TextSnippet => {
+  const first = Math.min(...terms.map(term => body.lower.indexOf(term)));
+  let start = Math.max(0, first - SNIPPET_BEFORE);
+  // Start on a word when there is one nearby
+  const space = body.text.lastIndexOf(' ', start);
+  if (start > 0 && space >= 0 && start - space < 15) start = space + 1;
+  const end = Math.min(body.text.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '… ' : '';
+  const text = prefix + body.text.slice(start, end) + (end < body.text.length ? ' …' : '');
+  const excerpt = body.lower.slice(start, end);
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    for (let at = excerpt.indexOf(term); at >= 0; at = excerpt.indexOf(term, at + term.length)) {
+      ranges.push([prefix.length + at, prefix.length + at + term.length]);
+    }
+  });
+  return { text, ranges };
+};
+
+/**
+ * Scores a variant against the search terms; every term has to match somewhere
+ */
+export const scoreTheme = (entry: IndexedTheme, terms: string[]): ThemeMatch | null => {
+  const highlights: MatchHighlights = {};
+  const bodyTerms: string[] = [];
+  let score = 0;
+
+  for (const term of terms) {
+    let best = 0;
+    FIELDS.forEach(name => {
+      const field = entry.fields[name];
+      const match = field && matchField(field, term);
+      if (!match) return;
+      best = Math.max(best, match.quality * FIELD_WEIGHTS[name]);
+      (highlights[name] ||= []).push(match.range);
+    });
+    if (best === 0 && APPEARANCE_WORDS.includes(term) && entry.appearance === term) best = 1;
+    if (best === 0 && entry.body?.lower.includes(term)) {
+      best = SUBSTRING * BODY_WEIGHT;
+      bodyTerms.push(term);
+    }
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return {
+    score,
+    highlights,
+    snippet: entry.body && bodyTerms.length > 0 ? buildSnippet(entry.body, bodyTerms) : undefined,
+  };
+};
+
+/**
+ * Picks the best-scoring variant among the candidates of a group
+ */
+export const searchThemes = (index: SearchIndex, themes: ThemeItem[], terms: string[]): (ThemeMatch & { theme: ThemeItem }) | null => {
+  let best: (ThemeMatch & { theme: ThemeItem }) | null = null;
+  for (const theme of themes) {
+    const entry = index.get(theme.id);
+    const match = entry && scoreTheme(entry, terms);
+    if (match && (!best || match.score > best.score)) best = { ...match, theme };
+  }
+  return best;
+};
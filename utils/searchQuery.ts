@@ -0,0 +1,273 @@
+import { ThemeGroup, ThemeItem } from '../types';
+import { COLOR_FAMILIES, colorFamily } from './cssPalette';
+import { publishedAt } from './themeGroups';
+
+export type QueryErrorKind =
+  | 'unknown-qualifier'
+  | 'empty-value'
+  | 'invalid-number'
+  | 'invalid-date'
+  | 'invalid-option'
+  | 'unclosed-quote'
+  | 'needs-palette';
+
+export interface QueryError {
+  kind: QueryErrorKind;
+  token: string;
+  suggestion?: string; // Closest known qualifier, for typos
+  options?: string[];  // Accepted values, for closed lists
+}
+
+export interface SearchQuery {
+  terms: string[]; // Bare words and quoted phrases, lowercased; matched through the search index
+  groupFilters: ((group: ThemeGroup) => boolean)[];
+  themeFilters: ((theme: ThemeItem, group: ThemeGroup) => boolean)[];
+  errors: QueryError[];
+}
+
+export interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+type Qualifier =
+  | 'author' | 'repo' | 'title' | 'category' | 'tag' | 'license'
+  | 'stars' | 'issues' | 'variants' | 'updated' | 'published' | 'is' | 'font' | 'color';
+
+export const QUALIFIERS: Qualifier[] = [
+  'author', 'repo', 'title', 'category', 'tag', 'license',
+  'stars', 'issues', 'variants', 'updated', 'published', 'is', 'font', 'color',
+];
+
+// Closed value lists, offered by autocomplete and checked by the parser
+export const QUALIFIER_OPTIONS: Partial<Record<Qualifier, string[]>> = {
+  is: ['dark', 'light', 'multi'],
+  font: ['serif', 'sans', 'mono'],
+  color: COLOR_FAMILIES,
+};
+
+const FONT_OPTIONS: Record<string, string> = { serif: 'serif', sans: 'sans-serif', mono: 'monospace' };
+
+const includesText = (value: string | undefined, needle: string) => (value || '').toLowerCase().includes(needle);
+
+/**
+ * Splits a query on whitespace, keeping quoted values together ("one dark", author:"jo doe")
+ */
+export const tokenizeQuery = (input: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  const pattern = /(?:[^\s"]+|"[^"]*"?)+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input))) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+};
+
+const unquote = (value: string) => value.replace(/^"|"$/g, '');
+
+/**
+ * Levenshtein distance between two strings, used to tolerate typos
+ */
+export const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = current;
+    }
+  }
+  return row[b.length];
+};
+
+const closestQualifier = (key: string): string | undefined => {
+  const [best] = QUALIFIERS
+    .map(q => ({ q, d: q.startsWith(key) ? 0 : editDistance(key, q) }))
+    .sort((a, b) => a.d - b.d);
+  return best && best.d <= 2 ? best.q : undefined;
+};
+
+/**
+ * Parses ">200", ">=10", "<5", "10..50" or "42" into a number predicate
+ */
+const parseNumberRange = (value: string): ((n: number) => boolean) | null => {
+  const range = value.match(/^(\d+)\.\.(\d+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return n => n >= min && n <= max;
+  }
+  const match = value.match(/^(>=|<=|>|<|=)?(\d+)$/);
+  if (!match) return null;
+  const limit = Number(match[2]);
+  switch (match[1]) {
+    case '>': return n => n > limit;
+    case '>=': return n => n >= limit;
+    case '<': return n => n < limit;
+    case '<=': return n => n <= limit;
+    default: return n => n === limit;
+  }
+};
+
+/**
+ * Turns 2023, 2023-06 or 2023-06-15 into the period [start, end) it covers
+ */
+const parsePeriod = (value: string): [number, number] | null => {
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), match[2] ? Number(match[2]) - 1 : undefined, match[3] ? Number(match[3]) : undefined];
+  if (month === undefined) return [Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1)];
+  if (month < 0 || month > 11) return null;
+  if (day === undefined) return [Date.UTC(year, month, 1), Date.UTC(year, month + 1, 1)];
+  // Date.UTC would roll 2022-02-30 over into March
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  if (day < 1 || day > daysInMonth) return null;
+  return [Date.UTC(year, month, day), Date.UTC(year, month, day + 1)];
+};
+
+/**
+ * Parses "<2023", ">=2022-06", "2021" or "2020..2022" into a timestamp predicate.
+ * Comparisons are against whole periods, so "<2023" means before 2023 began.
+ */
+const parseDateRange = (value: string): ((time: number) => boolean) | null => {
+  const range = value.match(/^([\d-]+)\.\.([\d-]+)$/);
+  if (range) {
+    const [from, to] = [parsePeriod(range[1]), parsePeriod(range[2])];
+    return from && to ? time => time >= from[0] && time < to[1] : null;
+  }
+  const match = value.match(/^(>=|<=|>|<|=)?([\d-]+)$/);
+  const period = match && parsePeriod(match[2]);
+  if (!match || !period) return null;
+  const [start, end] = period;
+  switch (match[1]) {
+    case '>': return time => time >= end;
+    case '>=': return time => time >= start;
+    case '<': return time => time < start;
+    case '<=': return time => time < end;
+    default: return time => time >= start && time < end;
+  }
+};
+
+/**
+ * Parses a search query into text terms and qualifier predicates.
+ * Invalid qualifiers are reported and otherwise ignored, so a half-typed query still filters sensibly.
+ * Without palette data, the appearance, font and color qualifiers would match nothing, so they are reported instead.
+ */
+export const parseSearchQuery = (input: string, hasPalettes = true): SearchQuery => {
+  const query: SearchQuery = { terms: [], groupFilters: [], themeFilters: [], errors: [] };
+
+  tokenizeQuery(input).forEach(({ text }) => {
+    if ((text.match(/"/g) || []).length % 2 === 1) {
+      query.errors.push({ kind: 'unclosed-quote', token: text });
+    }
+
+    const qualified = text.match(/^([a-zA-Z]+):(.*)$/);
+    if (!qualified) {
+      const term = unquote(text).toLowerCase();
+      if (term) query.terms.push(term);
+      return;
+    }
+
+    const key = qualified[1].toLowerCase() as Qualifier;
+    const value = unquote(qualified[2]).trim();
+    const lower = value.toLowerCase();
+
+    if (!QUALIFIERS.includes(key)) {
+      query.errors.push({ kind: 'unknown-qualifier', token: text, suggestion: closestQualifier(key) });
+      return;
+    }
+    if (!value) {
+      query.errors.push({ kind: 'empty-value', token: text });
+      return;
+    }
+    const options = QUALIFIER_OPTIONS[key];
+    if (options && !options.includes(lower)) {
+      query.errors.push({ kind: 'invalid-option', token: text, options });
+      return;
+    }
+
+    const needsPalette = key === 'font' || key === 'color' || (key === 'is' && lower !== 'multi');
+    if (needsPalette && !hasPalettes) {
+      query.errors.push({ kind: 'needs-palette', token: text });
+      return;
+    }
+
+    switch (key) {
+      case 'author':
+        query.themeFilters.push((t, g) => includesText(t.author, lower) || includesText(g.repoOwner, lower));
+        break;
+      case 'repo':
+        query.groupFilters.push(g => includesText(g.id, lower));
+        break;
+      case 'title':
+        query.themeFilters.push(t => includesText(t.title, lower));
+        break;
+      case 'category':
+        query.themeFilters.push(t => (t.category || '').toLowerCase() === lower);
+        break;
+      case 'tag':
+        query.themeFilters.push(t => (t.tags || []).some(tag => tag.toLowerCase() === lower));
+        break;
+      case 'license':
+        query.groupFilters.push(g => (g.stats?.license || '').toLowerCase() === lower);
+        break;
+      case 'stars':
+      case 'issues':
+      case 'variants': {
+        const test = parseNumberRange(value);
+        if (!test) {
+          query.errors.push({ kind: 'invalid-number', token: text });
+          break;
+        }
+        const read = (g: ThemeGroup) =>
+          key === 'stars' ? g.stats?.stars || 0 : key === 'issues' ? g.stats?.openIssues || 0 : g.themes.length;
+        query.groupFilters.push(g => test(read(g)));
+        break;
+      }
+      case 'updated': {
+        const test = parseDateRange(value);
+        if (!test) {
+          query.errors.push({ kind: 'invalid-date', token: text });
+          break;
+        }
+        query.groupFilters.push(g => !!g.stats?.lastCommitAt && test(new Date(g.stats.lastCommitAt).getTime()));
+        break;
+      }
+      case 'published': {
+        const test = parseDateRange(value);
+        if (!test) {
+          query.errors.push({ kind: 'invalid-date', token: text });
+          break;
+        }
+        query.themeFilters.push(t => {
+          const date = publishedAt(t);
+          return !!date && test(date.getTime());
+        });
+        break;
+      }
+      case 'is':
+        if (lower === 'multi') query.groupFilters.push(g => g.themes.length > 1);
+        else query.themeFilters.push(t => t.palette?.appearance === lower);
+        break;
+      case 'font':
+        query.themeFilters.push(t => t.palette?.fontCategory === FONT_OPTIONS[lower]);
+        break;
+      case 'color':
+        query.themeFilters.push(t => !!t.palette?.accents.some(c => colorFamily(c) === lower));
+        break;
+    }
+  });
+
+  return query;
+};
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  query.terms.length === 0 && query.groupFilters.length === 0 && query.themeFilters.length === 0;
+
+export const matchesGroupQualifiers = (group: ThemeGroup, query: SearchQuery): boolean =>
+  query.groupFilters.every(test => test(group));
+
+export const matchesThemeQualifiers = (theme: ThemeItem, group: ThemeGroup, query: SearchQuery): boolean =>
+  query.themeFilters.every(test => test(theme, group));
@@ -0,0 +1,103 @@
+import { ThemeGroup } from '../types';
+import { EMPTY_FACETS, ListFacet, MONTH, countFacetValues } from './facets';
+import { galleryPath } from './galleryParams';
+import { publishedAt } from './themeGroups';
+
+// Labels that don't come from the data; the page translates them
+export type StatLabelKey =
+  | 'statsUpdatedRecently' | 'statsInactive' | 'statsNoCommitData'
+  | 'statsNoLicense' | 'statsOtherLicenses' | 'statsUncategorized' | 'statsOtherCategories' | 'unknown';
+
+export interface StatBar {
+  label: string; // Value from the data (a year, a license); empty when labelKey is set
+  labelKey?: StatLabelKey;
+  labelParams?: Record<string, string>; // Fills {placeholders} in the translated label
+  value: number;
+  path?: string; // Gallery view listing the themes behind the bar
+}
+
+export interface EcosystemStats {
+  repoCount: number;
+  variantCount: number;
+  totalStars: number;
+  publishedPerYear: StatBar[]; // Counts theme posts, every other chart counts repositories
+  licenses: StatBar[];
+  stars: StatBar[];
+  activity: StatBar[];
+  authors: StatBar[];
+  categories: StatBar[];
+}
+
+const TOP_COUNT = 10;
+const INACTIVE_MONTHS = 24;
+
+// Upper bounds are inclusive, matching the gallery's star range filter
+const STAR_BUCKETS: [number, number | undefined][] = [[0, 9], [10, 49], [50, 99], [100, 499], [500, 999], [1000, undefined]];
+
+const facetBars = (groups: ThemeGroup[], facet: ListFacet, noneLabel: StatLabelKey, otherLabel?: StatLabelKey): StatBar[] => {
+  const counts = countFacetValues(groups, EMPTY_FACETS, facet);
+  const bars: StatBar[] = counts.slice(0, TOP_COUNT).map(([value, count]) => ({
+    label: value,
+    labelKey: value ? undefined : noneLabel,
+    value: count,
+    // The URL can't select the empty value, so "none" bars aren't links
+    path: value ? galleryPath({ facets: { ...EMPTY_FACETS, [facet]: [value] } }) : undefined,
+  }));
+  const rest = counts.slice(TOP_COUNT).reduce((sum, [, count]) => sum + count, 0);
+  if (otherLabel && rest > 0) bars.push({ label: '', labelKey: otherLabel, value: rest });
+  return bars;
+};
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Aggregates the dataset into the charts of the statistics page
+ */
+export const computeStats = (groups: ThemeGroup[], now = Date.now()): EcosystemStats => {
+  const years = new Map<number, number>();
+  groups.forEach(g => g.themes.forEach(t => {
+    const year = publishedAt(t)?.getUTCFullYear();
+    if (year) years.set(year, (years.get(year) || 0) + 1);
+  }));
+
+  const stars = STAR_BUCKETS.map(([min, max]) => ({
+    label: max === undefined ? `${min.toLocaleString()}+` : `${min}–${max}`,
+    value: groups.filter(g => (g.stats?.stars || 0) >= min && (max === undefined || (g.stats?.stars || 0) <= max)).length,
+    path: galleryPath({ facets: { ...EMPTY_FACETS, minStars: min || undefined, maxStars: max } }),
+  }));
+
+  // Same cut-off as the gallery's "updated within" filter
+  const cutoff = now - INACTIVE_MONTHS * MONTH;
+  const commitTimes = groups.map(g => (g.stats?.lastCommitAt ? new Date(g.stats.lastCommitAt).getTime() : undefined));
+  const activity: StatBar[] = [
+    {
+      label: '',
+      labelKey: 'statsUpdatedRecently',
+      labelParams: { years: String(INACTIVE_MONTHS / 12) },
+      value: commitTimes.filter(time => time !== undefined && time >= cutoff).length,
+      path: galleryPath({ facets: { ...EMPTY_FACETS, updatedWithinMonths: INACTIVE_MONTHS } }),
+    },
+    {
+      label: '',
+      labelKey: 'statsInactive',
+      labelParams: { years: String(INACTIVE_MONTHS / 12) },
+      value: commitTimes.filter(time => time !== undefined && time < cutoff).length,
+      path: galleryPath({ search: `updated:<${toDay(cutoff)}` }),
+    },
+    { label: '', labelKey: 'statsNoCommitData', value: commitTimes.filter(time => time === undefined).length },
+  ];
+
+  return {
+    repoCount: groups.length,
+    variantCount: groups.reduce((sum, g) => sum + g.themes.length, 0),
+    totalStars: groups.reduce((sum, g) => sum + (g.stats?.stars || 0), 0),
+    publishedPerYear: [...years.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([year, count]) => ({ label: String(year), value: count, path: galleryPath({ search: `published:${year}` }) })),
+    licenses: facetBars(groups, 'licenses', 'statsNoLicense', 'statsOtherLicenses'),
+    stars,
+    activity: activity.filter(bar => bar.value > 0),
+    authors: facetBars(groups, 'authors', 'unknown'),
+    categories: facetBars(groups, 'categories', 'statsUncategorized', 'statsOtherCategories'),
+  };
+};
@@ -0,0 +1,39 @@
+import { ThemeItem, ThemeGroup } from '../types';
+import { DEFAULT_HOST, repoGroupId } from './repoRef';
+
+/**
+ * Groups theme variants by the repository they come from
+ */
+export const groupThemes = (themes: ThemeItem[]): ThemeGroup[] => {
+  const groups: { [key: string]: ThemeGroup } = {};
+
+  themes.forEach(theme => {
+    // Themes without a repository all share the "unknown/unknown" group; groupRepoRef() marks it as such
+    const repoHost = theme.repoHost || DEFAULT_HOST;
+    const repoOwner = theme.repoOwner || 'unknown';
+    const repoName = theme.repoName || 'unknown';
+    const groupId = repoGroupId({ host: repoHost, owner: repoOwner, repo: repoName });
+
+    if (!groups[groupId]) {
+      groups[groupId] = {
+        id: groupId,
+        repoHost,
+        repoOwner,
+        repoName,
+        themes: [],
+        loadingStats: true // Default to loading stats
+      };
+    }
+    groups[groupId].themes.push(theme);
+  });
+
+  return Object.values(groups);
+};
+
+/**
+ * Publication date of a theme post, read from its Jekyll file name (2025-8-22-OneLight.md)
+ */
+export const publishedAt = (theme: ThemeItem): Date | null => {
+  const match = theme.fileName.match(/^(\d{4})-(\d{1,2})-(\d{1,2})-/);
+  return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+};
@@ -0,0 +1,102 @@
+import { ThemeGroup, ThemeItem, DataIssue, DataIssueKind } from '../types';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isValidUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Checks a raw dataset, dropping entries that can't be rendered and repairing the ones that can.
+ * Throws only when the payload isn't a list at all.
+ */
+export const validateThemeGroups = (raw: unknown, source?: string): { groups: ThemeGroup[]; issues: DataIssue[] } => {
+  if (!Array.isArray(raw)) {
+    throw new Error('Theme data is not a list of groups');
+  }
+
+  const issues: DataIssue[] = [];
+  const report = (kind: DataIssueKind, action: DataIssue['action'], message: string, groupId?: string, themeId?: string) => {
+    issues.push({ kind, action, message, groupId, themeId, source });
+  };
+
+  const seenGroupIds = new Set<string>();
+  const seenThemeIds = new Set<string>();
+  const groups: ThemeGroup[] = [];
+
+  raw.forEach((entry, groupIndex) => {
+    if (!isObject(entry) || !isNonEmptyString(entry.id) || !Array.isArray(entry.themes)) {
+      report('invalid-group', 'dropped', `Entry #${groupIndex} is not a valid theme group`);
+      return;
+    }
+
+    const groupId: string = entry.id;
+    if (seenGroupIds.has(groupId)) {
+      report('duplicate-id', 'dropped', `Group "${groupId}" appears more than once`, groupId);
+      return;
+    }
+    seenGroupIds.add(groupId);
+
+    const themes: ThemeItem[] = [];
+    entry.themes.forEach((item: unknown, themeIndex: number) => {
+      if (!isObject(item) || !isNonEmptyString(item.id)) {
+        report('invalid-item', 'dropped', `Theme #${themeIndex} has no id`, groupId);
+        return;
+      }
+
+      const themeId: string = item.id;
+      if (seenThemeIds.has(themeId)) {
+        report('duplicate-id', 'dropped', `Theme "${themeId}" appears more than once`, groupId, themeId);
+        return;
+      }
+      seenThemeIds.add(themeId);
+
+      const theme = { ...item } as ThemeItem;
+      if (!isNonEmptyString(theme.fileName)) {
+        theme.fileName = themeId;
+      }
+      if (!isNonEmptyString(theme.title)) {
+        theme.title = theme.fileName.replace(/\.md$/i, '');
+        report('missing-title', 'repaired', `Missing title, using "${theme.title}"`, groupId, themeId);
+      }
+      if (!isNonEmptyString(theme.thumbnail)) {
+        report('missing-thumbnail', 'kept', 'Missing thumbnail', groupId, themeId);
+      }
+      if (theme.homepage !== undefined && (!isNonEmptyString(theme.homepage) || !isValidUrl(theme.homepage))) {
+        report('invalid-homepage', 'repaired', `Unparseable homepage "${theme.homepage}" removed`, groupId, themeId);
+        delete theme.homepage;
+      }
+      if (theme.palette !== undefined && (!isObject(theme.palette) || !['light', 'dark'].includes(theme.palette.appearance) || !Array.isArray(theme.palette.accents))) {
+        report('invalid-palette', 'repaired', 'Malformed palette removed', groupId, themeId);
+        delete theme.palette;
+      }
+      themes.push(theme);
+    });
+
+    if (themes.length === 0) {
+      report('empty-group', 'dropped', 'Group has no usable themes', groupId);
+      return;
+    }
+
+    // Older data may lack the split owner/name; the id carries both
+    const idParts = groupId.split('/');
+    groups.push({
+      ...entry,
+      id: groupId,
+      repoOwner: isNonEmptyString(entry.repoOwner) ? entry.repoOwner : idParts[idParts.length - 2] || 'unknown',
+      repoName: isNonEmptyString(entry.repoName) ? entry.repoName : idParts[idParts.length - 1] || 'unknown',
+      themes,
+    } as ThemeGroup);
+  });
+
+  return { groups, issues };
+};
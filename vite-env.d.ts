@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated theme data sources, see services/dataSources.ts
+  readonly VITE_THEME_SOURCES?: string;
+  // Full-text index of post bodies, see services/postTextIndex.ts
+  readonly VITE_POST_TEXT_INDEX?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}